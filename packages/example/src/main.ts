@@ -1,5 +1,5 @@
 import './style.css'
-import { SharedWorkerClient } from 'shared-worker-utils'
+import { SharedWorkerClient, type UpstreamStatus } from 'shared-worker-utils'
 
 // DOM elements
 const connectionStatus = document.querySelector('#connection-status')!
@@ -19,10 +19,12 @@ interface StockData {
 }
 
 // Define message types from SharedWorker
-type WorkerMessage =
-  | { type: 'connection-status'; status: string }
-  | { type: 'stock-update'; data: StockData[] }
-  | { type: 'client-info'; total: number; active: number; stale: number }
+type WorkerMessage = { type: 'stock-update'; data: StockData[] }
+
+// State mirrored from the SharedWorker
+interface AppState {
+  clients: { total: number; active: number; stale: number }
+}
 
 let currentStockData: StockData[] = []
 
@@ -78,31 +80,32 @@ function updateStockTable(stocks: StockData[]) {
 }
 
 // Connect to SharedWorker using SharedWorkerClient
-const worker = new SharedWorker(new URL('shared-worker.ts', import.meta.url), {
-  type: 'module',
-  name: 'stock-websocket-worker',
-})
-
-const portWrapper = new SharedWorkerClient<WorkerMessage>(worker, {
+// A factory lets the client rebuild the worker if it crashes or is terminated
+const createWorker = () =>
+  new SharedWorker(new URL('shared-worker.ts', import.meta.url), {
+    type: 'module',
+    name: 'stock-websocket-worker',
+  })
+
+const portWrapper = new SharedWorkerClient<WorkerMessage>(createWorker, {
   onMessage: (message) => {
     switch (message.type) {
-      case 'connection-status': {
-        updateConnectionStatus(message.status)
-        break
-      }
-
       case 'stock-update': {
         updateStockTable(message.data)
         break
       }
-
-      case 'client-info': {
-        // Application-level client count message (not the internal client-count)
-        updateClientCounts(message.total, message.active, message.stale)
-        break
-      }
     }
   },
+  onConnectionStateChange: (state) => {
+    const status = upstreamStatus.get()
+    if (state !== 'connected') {
+      updateConnectionStatus('disconnected')
+    } else if (status) {
+      updateConnectionStatus(status.state)
+    }
+  },
+  // Lets the SharedWorker drop this tab as soon as it closes
+  livenessLock: true,
   onLog: (logEntry) => {
     const contextString = logEntry.context
       ? ` ${JSON.stringify(logEntry.context)}`
@@ -113,6 +116,22 @@ const portWrapper = new SharedWorkerClient<WorkerMessage>(worker, {
   },
 })
 
+// Render client counts from the SharedWorker's state
+function renderAppState(state: AppState) {
+  updateClientCounts(
+    state.clients.total,
+    state.clients.active,
+    state.clients.stale
+  )
+}
+
+const appState = portWrapper.getSharedState<AppState>('app')
+appState.subscribe(renderAppState)
+
+// The WebSocket's status, published by the UpstreamSocket in the SharedWorker
+const upstreamStatus = portWrapper.getSharedState<UpstreamStatus>('upstream')
+upstreamStatus.subscribe(({ state }) => updateConnectionStatus(state))
+
 // Update table when tab becomes visible
 document.addEventListener('visibilitychange', () => {
   if (portWrapper.isVisible() && currentStockData.length > 0) {
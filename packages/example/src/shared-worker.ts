@@ -1,5 +1,10 @@
 // SharedWorker to manage a single WebSocket connection across multiple tabs
-import { PortManager, type LogEntry } from 'shared-worker-utils'
+import {
+  PortManager,
+  SharedState,
+  UpstreamSocket,
+  type LogEntry,
+} from 'shared-worker-utils'
 
 // Declare SharedWorker global
 declare const self: SharedWorkerGlobalScope
@@ -7,11 +12,13 @@ declare const self: SharedWorkerGlobalScope
 // Define message types for application messages
 type AppMessage = never // No application messages from clients in this example
 
-let socket: WebSocket | undefined
+// State mirrored in every tab, alongside the UpstreamSocket's own status
+interface AppState {
+  clients: { total: number; active: number; stale: number }
+}
+
 // Use environment variable for WebSocket URL, default to wrangler dev server (localhost:8787)
 const WEBSOCKET_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:8787'
-let reconnectTimeout: ReturnType<typeof setTimeout> | undefined
-const RECONNECT_DELAY = 3000
 
 function log(logEntry: LogEntry) {
   const contextString = logEntry.context
@@ -26,139 +33,48 @@ function log(logEntry: LogEntry) {
 const portManager = new PortManager<AppMessage>({
   pingInterval: 10_000,
   pingTimeout: 5000,
-  onActiveCountChange: (activeCount, totalCount) => {
-    // Manage WebSocket connection based on active clients
-    if (activeCount === 0 && socket) {
-      log({
-        message: '[WebSocket] No active clients, pausing WebSocket connection',
-        level: 'info',
-      })
-      disconnectWebSocket()
-    } else if (activeCount > 0 && !socket) {
-      log({
-        message:
-          '[WebSocket] Active client detected, resuming WebSocket connection',
-        level: 'info',
-      })
-      connectWebSocket()
-    }
-
-    // Send client count as an application message (not the internal client-count message)
-    portManager.broadcast({
-      type: 'client-info',
-      total: totalCount,
-      active: activeCount,
-      stale: portManager.getStaleCount(),
-    })
+  // Hidden tabs only need the latest update of each kind
+  hiddenDelivery: {
+    mode: 'coalesce',
+    key: (message) => (message as { type?: string }).type,
   },
   onMessage: (_port, message) => {
     // Forward application messages to WebSocket server if needed
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify(message))
-    }
+    upstream.send(message)
   },
   onLog: log,
 })
 
-function connectWebSocket() {
-  if (
-    socket &&
-    (socket.readyState === WebSocket.CONNECTING ||
-      socket.readyState === WebSocket.OPEN)
-  ) {
-    log({
-      message: '[WebSocket] Already connected or connecting',
-      level: 'info',
-    })
-    return
-  }
-
-  log({
-    message: '[WebSocket] Connecting to server...',
-    level: 'info',
-  })
-  socket = new WebSocket(WEBSOCKET_URL)
-
-  socket.addEventListener('open', () => {
-    log({
-      message: '[WebSocket] Connected',
-      level: 'info',
-    })
-
-    // Notify all connected clients
-    portManager.broadcast({
-      type: 'connection-status',
-      status: 'connected',
-    })
-  })
-
-  socket.addEventListener('message', (event) => {
-    try {
-      const data = JSON.parse(event.data)
-      log({
-        message: '[WebSocket] Received message',
-        level: 'debug',
-        context: { type: data.type },
-      })
-
-      // Broadcast message to all connected clients
-      portManager.broadcast(data)
-    } catch (error) {
-      console.error('[WebSocket] Error parsing message:', error)
-    }
-  })
-
-  socket.addEventListener('close', () => {
-    log({
-      message: '[WebSocket] Disconnected',
-      level: 'info',
-    })
-    socket = undefined
-
-    // Notify all connected clients
-    portManager.broadcast({
-      type: 'connection-status',
-      status: 'disconnected',
-    })
-
-    // Reconnect if there are still active (visible) clients
-    const activeCount = portManager.getActiveCount()
-
-    if (activeCount > 0) {
-      log({
-        message: '[WebSocket] Reconnecting...',
-        level: 'info',
-        context: { delayMs: RECONNECT_DELAY, activeClients: activeCount },
-      })
-      reconnectTimeout = setTimeout(connectWebSocket, RECONNECT_DELAY)
-    } else {
-      log({
-        message: '[WebSocket] No active clients, staying disconnected',
-        level: 'info',
-      })
-    }
-  })
-
-  socket.addEventListener('error', (error) => {
-    console.error('[WebSocket] Error:', error)
-  })
-}
+// Tabs receive a snapshot when they connect and patches when it changes
+const appState = new SharedState<AppState>(portManager, {
+  name: 'app',
+  initialState: {
+    clients: { total: 0, active: 0, stale: 0 },
+  },
+  onLog: log,
+})
 
-function disconnectWebSocket() {
-  if (reconnectTimeout) {
-    clearTimeout(reconnectTimeout)
-    reconnectTimeout = undefined
-  }
+// Share client counts with every tab (separate from the internal client-count message)
+// Watched only once appState exists, as counts change from the first connect
+portManager.watchClientCount((activeCount, totalCount) => {
+  appState.update((state) => ({
+    ...state,
+    clients: {
+      total: totalCount,
+      active: activeCount,
+      stale: portManager.getStaleCount(),
+    },
+  }))
+})
 
-  if (socket) {
-    log({
-      message: '[WebSocket] Disconnecting',
-      level: 'info',
-    })
-    socket.close()
-    socket = undefined
-  }
-}
+// One WebSocket for all tabs, kept open through quick tab switches
+// Tabs read its status from the 'upstream' shared state
+const upstream = new UpstreamSocket(portManager, {
+  url: WEBSOCKET_URL,
+  name: 'upstream',
+  reconnect: { initialDelay: 3000 },
+  onLog: log,
+})
 
 // Handle new port connections
 self.addEventListener('connect', (event: MessageEvent) => {
@@ -166,21 +82,6 @@ self.addEventListener('connect', (event: MessageEvent) => {
 
   // Let PortManager handle all port management
   portManager.handleConnect(port)
-
-  // Send current connection status to the new client
-  if (socket) {
-    const status =
-      socket.readyState === WebSocket.OPEN ? 'connected' : 'connecting'
-    port.postMessage({
-      type: 'connection-status',
-      status,
-    })
-  } else {
-    port.postMessage({
-      type: 'connection-status',
-      status: 'disconnected',
-    })
-  }
 })
 
 log({
@@ -0,0 +1,66 @@
+export interface ActivityMonitorOptions {
+  idleDelay: number
+  activeDelay: number
+  onIdle?: () => void
+  onActive?: () => void
+}
+
+/**
+ * Turns active client counts into debounced idle and active transitions
+ * The PortManager only becomes idle after it has had no active clients for
+ * idleDelay, and active after it has had some for activeDelay. A change
+ * back within the delay cancels the pending transition
+ */
+export class ActivityMonitor {
+  private idle = true
+  private timeoutId?: ReturnType<typeof setTimeout>
+  private readonly options: ActivityMonitorOptions
+
+  constructor(options: ActivityMonitorOptions) {
+    this.options = options
+  }
+
+  isIdle(): boolean {
+    return this.idle
+  }
+
+  update(activeCount: number): void {
+    const idle = activeCount === 0
+
+    if (idle === this.idle) {
+      // Back where we were, so a pending transition no longer applies
+      this.cancel()
+      return
+    }
+    if (this.timeoutId !== undefined) return
+
+    const delay = idle ? this.options.idleDelay : this.options.activeDelay
+    if (delay <= 0) {
+      this.transition(idle)
+      return
+    }
+
+    this.timeoutId = setTimeout(() => {
+      this.timeoutId = undefined
+      this.transition(idle)
+    }, delay)
+  }
+
+  destroy(): void {
+    this.cancel()
+  }
+
+  private cancel(): void {
+    clearTimeout(this.timeoutId)
+    this.timeoutId = undefined
+  }
+
+  private transition(idle: boolean): void {
+    this.idle = idle
+    if (idle) {
+      this.options.onIdle?.()
+    } else {
+      this.options.onActive?.()
+    }
+  }
+}
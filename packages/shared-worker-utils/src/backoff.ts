@@ -0,0 +1,23 @@
+export interface BackoffOptions {
+  initialDelay: number
+  maxDelay: number
+  backoffMultiplier: number
+  /**
+   * Fraction of the delay that is randomized, so that many clients retrying
+   * at once spread out
+   */
+  jitter?: number
+}
+
+/**
+ * Get the delay before a reconnection attempt
+ * @param attempt - Number of failed attempts so far
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: BackoffOptions
+): number {
+  const { initialDelay, maxDelay, backoffMultiplier, jitter = 0 } = options
+  const delay = Math.min(initialDelay * backoffMultiplier ** attempt, maxDelay)
+  return Math.round(delay * (1 - jitter * Math.random()))
+}
@@ -0,0 +1,177 @@
+import type { MessageCodec } from './types'
+
+// Also matches ArrayBuffers created in another realm, e.g. by a codec's TextEncoder
+export function isArrayBuffer(value: unknown): value is ArrayBuffer {
+  return Object.prototype.toString.call(value) === '[object ArrayBuffer]'
+}
+
+export interface EncodedMessage {
+  data: unknown
+  transfer: Transferable[]
+}
+
+type Stage = (value: unknown) => unknown
+
+export function isPromise(value: unknown): value is Promise<unknown> {
+  return typeof (value as Promise<unknown> | undefined)?.then === 'function'
+}
+
+/**
+ * Run stages in order, switching to promises only once a stage returns one
+ */
+function runStages(value: unknown, stages: Stage[]): unknown {
+  let result = value
+  for (const [index, stage] of stages.entries()) {
+    if (isPromise(result)) {
+      return result.then((resolved) => runStages(resolved, stages.slice(index)))
+    }
+    result = stage(result)
+  }
+  return result
+}
+
+/**
+ * Encodes outgoing and decodes incoming messages with a list of codecs
+ * Codecs encode in order and decode in reverse order. While an async codec
+ * is busy, later messages wait so they are delivered in the order they were
+ * sent. With only sync codecs (or none) everything happens synchronously
+ */
+export class CodecPipeline {
+  private encoders: Stage[]
+  private decoders: Stage[]
+  private outbound?: Promise<void>
+  private inbound?: Promise<void>
+
+  constructor(codec?: MessageCodec | MessageCodec[]) {
+    const codecs = codec === undefined ? [] : [codec].flat()
+    this.encoders = codecs.map((stage) => (value) => stage.encode(value))
+    this.decoders = []
+    for (const stage of codecs) {
+      this.decoders.unshift((value) => stage.decode(value))
+    }
+  }
+
+  /**
+   * Encode a message and pass it to send()
+   * An ArrayBuffer produced by the codecs belongs to nobody else, so it is
+   * transferred along with the caller's transfer list instead of copied
+   */
+  encode(
+    message: unknown,
+    transfer: Transferable[],
+    send: (encoded: EncodedMessage) => void,
+    onError: (error: unknown) => void
+  ): void {
+    this.outbound = this.process(
+      this.outbound,
+      message,
+      this.encoders,
+      (data) => {
+        send({
+          data,
+          transfer:
+            data !== message && isArrayBuffer(data)
+              ? [...transfer, data]
+              : transfer,
+        })
+      },
+      onError
+    )
+  }
+
+  /**
+   * Decode received data and pass the message to dispatch()
+   */
+  decode(
+    data: unknown,
+    dispatch: (message: unknown) => void,
+    onError: (error: unknown) => void
+  ): void {
+    this.inbound = this.process(
+      this.inbound,
+      data,
+      this.decoders,
+      dispatch,
+      onError
+    )
+  }
+
+  /**
+   * Run a value through the stages now, or after the queued values
+   * @returns The new queue, or undefined if nothing is pending
+   */
+  private process(
+    queue: Promise<void> | undefined,
+    value: unknown,
+    stages: Stage[],
+    done: (result: unknown) => void,
+    onError: (error: unknown) => void
+  ): Promise<void> | undefined {
+    let work: Promise<unknown>
+
+    if (queue) {
+      work = queue.then(() => runStages(value, stages))
+    } else {
+      let result: unknown
+      try {
+        result = runStages(value, stages)
+      } catch (error) {
+        onError(error)
+        return undefined
+      }
+
+      if (!isPromise(result)) {
+        done(result)
+        return undefined
+      }
+      work = result
+    }
+
+    const pending = work.then(done, onError).catch((error: unknown) => {
+      // An error thrown by done() must not stall the queue, so report it
+      // the way an error in an event listener would be
+      queueMicrotask(() => {
+        throw error
+      })
+    })
+    void pending.then(() => {
+      if (this.outbound === pending) this.outbound = undefined
+      if (this.inbound === pending) this.inbound = undefined
+    })
+    return pending
+  }
+}
+
+/**
+ * Find the ArrayBuffers and MessagePorts in a message, for use as its
+ * transfer list. Typed arrays contribute their underlying buffer
+ * Transferring detaches them in the sender, so only pass buffers you no
+ * longer need
+ */
+export function collectTransferables(message: unknown): Transferable[] {
+  const found = new Set<Transferable>()
+  const seen = new Set<object>()
+
+  const visit = (value: unknown): void => {
+    if (typeof value !== 'object' || value === null || seen.has(value)) return
+    seen.add(value)
+
+    if (isArrayBuffer(value) || value instanceof MessagePort) {
+      found.add(value)
+    } else if (ArrayBuffer.isView(value)) {
+      if (isArrayBuffer(value.buffer)) found.add(value.buffer)
+    } else if (value instanceof Map) {
+      for (const [key, entry] of value) {
+        visit(key)
+        visit(entry)
+      }
+    } else if (Array.isArray(value) || value instanceof Set) {
+      for (const entry of value) visit(entry)
+    } else {
+      for (const entry of Object.values(value)) visit(entry)
+    }
+  }
+
+  visit(message)
+  return [...found]
+}
@@ -1,15 +1,57 @@
+/**
+ * Version of the internal message protocol spoken by PortManager and
+ * SharedWorkerClient. Bumped when internal messages change incompatibly
+ */
+export const PROTOCOL_VERSION = 1
+
 /**
  * Internal message type constants used by PortManager and SharedWorkerClient
  */
 export const MESSAGE_TYPES = {
+  CONNECT: '@shared-worker-utils/connect',
+  CONNECT_ACK: '@shared-worker-utils/connect-ack',
+  READY: '@shared-worker-utils/ready',
   PING: '@shared-worker-utils/ping',
   PONG: '@shared-worker-utils/pong',
+  LATENCY: '@shared-worker-utils/latency',
   DISCONNECT: '@shared-worker-utils/disconnect',
   VISIBILITY_CHANGE: '@shared-worker-utils/visibility-change',
   CLIENT_COUNT: '@shared-worker-utils/client-count',
+  REQUEST: '@shared-worker-utils/request',
+  RESPONSE: '@shared-worker-utils/response',
+  STREAM_CHUNK: '@shared-worker-utils/stream-chunk',
+  CANCEL: '@shared-worker-utils/cancel',
+  SUBSCRIBE: '@shared-worker-utils/subscribe',
+  UNSUBSCRIBE: '@shared-worker-utils/unsubscribe',
+  MESSAGE_REJECTED: '@shared-worker-utils/message-rejected',
+  RATE_LIMITED: '@shared-worker-utils/rate-limited',
+  SHUTDOWN: '@shared-worker-utils/shutdown',
+  STATE_PATCH: '@shared-worker-utils/state-patch',
+  LIVENESS_LOCK: '@shared-worker-utils/liveness-lock',
+  USER_ACTIVITY: '@shared-worker-utils/user-activity',
 } as const
 
 /**
  * Type for message type values
  */
 export type MessageType = (typeof MESSAGE_TYPES)[keyof typeof MESSAGE_TYPES]
+
+const INTERNAL_TYPES = new Set<unknown>(Object.values(MESSAGE_TYPES))
+
+/**
+ * Check if a message is one of the internal messages exchanged by
+ * PortManager and SharedWorkerClient
+ */
+export function isInternalMessage(message: unknown): boolean {
+  return INTERNAL_TYPES.has((message as { type?: unknown } | undefined)?.type)
+}
+
+/**
+ * Prefix of the topics and request methods used by SharedState
+ */
+export const STATE_PREFIX = '@shared-worker-utils/state/'
+
+/**
+ * Prefix of the Web Locks clients hold for their lifetime
+ */
+export const LIVENESS_LOCK_PREFIX = '@shared-worker-utils/liveness/'
@@ -0,0 +1,62 @@
+import type {
+  MessageContract,
+  MessagesOf,
+  Validator,
+  ValidatorMap,
+} from './types'
+
+/**
+ * Define the messages clients and the SharedWorker may send each other
+ * Pass the result to both PortManager and SharedWorkerClient as `contract`
+ * @param definition.client - Validators for messages sent by clients, keyed by message type
+ * @param definition.worker - Validators for messages sent by the SharedWorker, keyed by message type
+ */
+export function defineContract<
+  TClient extends ValidatorMap,
+  TWorker extends ValidatorMap,
+>(definition: {
+  client: TClient
+  worker: TWorker
+}): MessageContract<MessagesOf<TClient>, MessagesOf<TWorker>> {
+  return definition
+}
+
+export type ValidationResult =
+  | { valid: true; message: unknown }
+  | { valid: false; error: string }
+
+/**
+ * Validate an inbound message against the validators for its type
+ * Validators with a parse() method may transform the message
+ */
+export function validateMessage(
+  validators: ValidatorMap,
+  data: unknown
+): ValidationResult {
+  const type = (data as { type?: unknown } | undefined)?.type
+
+  if (typeof type !== 'string') {
+    return { valid: false, error: 'Message has no type' }
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(validators, type)) {
+    return { valid: false, error: `Unknown message type "${type}"` }
+  }
+
+  const validator: Validator<unknown> = validators[type]
+
+  try {
+    if (typeof validator === 'function') {
+      return validator(data)
+        ? { valid: true, message: data }
+        : { valid: false, error: `Invalid "${type}" message` }
+    }
+
+    return { valid: true, message: validator.parse(data) }
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
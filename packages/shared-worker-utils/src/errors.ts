@@ -0,0 +1,30 @@
+import type { SerializedError } from './types'
+
+/**
+ * Convert a thrown value into a structured-clone friendly error object
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      ...(error.stack !== undefined && { stack: error.stack }),
+    }
+  }
+
+  return { name: 'Error', message: String(error) }
+}
+
+/**
+ * Error raised on the client when a request handler in the SharedWorker fails
+ * Keeps the name, message and stack of the original error
+ */
+export class RemoteError extends Error {
+  constructor(serialized: SerializedError) {
+    super(serialized.message)
+    this.name = serialized.name
+    if (serialized.stack !== undefined) {
+      this.stack = serialized.stack
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type {
+  ClientState,
+  HeartbeatOptions,
+  HeartbeatPolicy,
+  StaleReason,
+} from './types'
+
+/**
+ * Fill in the heartbeat defaults
+ * @param pingTimeout - The timeout for visible clients
+ */
+export function createHeartbeatPolicy(
+  pingTimeout: number,
+  options: HeartbeatOptions = {}
+): HeartbeatPolicy {
+  const { adaptive } = options
+
+  return {
+    visibleTimeout: pingTimeout,
+    hiddenTimeout: options.hiddenTimeout ?? Math.max(pingTimeout, 60_000),
+    ...(adaptive && {
+      adaptive: {
+        latencyMultiplier:
+          (adaptive === true ? undefined : adaptive.latencyMultiplier) ?? 4,
+        maxTimeout:
+          (adaptive === true ? undefined : adaptive.maxTimeout) ?? 120_000,
+      },
+    }),
+  }
+}
+
+/**
+ * Get how long a client may take to answer a ping, and why it would go stale
+ * Hidden tabs get longer, and with adaptive timeouts slow clients do too
+ */
+export function getPingTimeout(
+  client: ClientState,
+  policy: HeartbeatPolicy
+): { timeout: number; reason: StaleReason } {
+  const reason: StaleReason = client.visible
+    ? 'ping-timeout'
+    : 'hidden-ping-timeout'
+  let timeout = client.visible ? policy.visibleTimeout : policy.hiddenTimeout
+
+  const { counters } = client
+  if (policy.adaptive && counters.latencySamples > 0) {
+    const { latencyMultiplier, maxTimeout } = policy.adaptive
+    const averageLatency = counters.latencySum / counters.latencySamples
+    timeout = Math.max(
+      timeout,
+      Math.min(maxTimeout, averageLatency * latencyMultiplier)
+    )
+  }
+
+  return { timeout, reason }
+}
@@ -0,0 +1,11 @@
+/**
+ * Create a random identifier
+ * Falls back to Math.random() where crypto.randomUUID() is unavailable (insecure contexts)
+ */
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
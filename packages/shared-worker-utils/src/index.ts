@@ -1,8 +1,77 @@
 export { PortManager } from './port-manager'
 export { SharedWorkerClient } from './shared-worker-client'
+export { PROTOCOL_VERSION } from './constants'
+export { collectTransferables } from './codec'
+export { defineContract } from './contract'
+export { LeaderElection } from './leader-election'
+export { SharedState, SharedStateMirror } from './shared-state'
+export { UpstreamSocket } from './upstream-socket'
+export { RemoteError } from './errors'
 export type {
   PortManagerOptions,
   SharedWorkerClientOptions,
   LogEntry,
   LogLevel,
+  InferValidator,
+  MessageCodec,
+  MessageContract,
+  MessageRejection,
+  MessagesOf,
+  Middleware,
+  MiddlewareDirection,
+  ClientMiddlewareContext,
+  PortManagerMetrics,
+  PortManagerMiddlewareContext,
+  ProtocolVersion,
+  RateLimit,
+  RateLimitAction,
+  RateLimitEvent,
+  RateLimitNotice,
+  RateLimitOptions,
+  Validator,
+  ValidatorMap,
+  VersionMismatch,
+  VersionMismatchAction,
+  AggregateMetrics,
+  ClientInfo,
+  ClientMetadata,
+  ClientMetrics,
+  ClientRemoveReason,
+  ClientSnapshot,
+  ClientState,
+  ClientStatus,
+  ConnectionState,
+  ElectionStrategy,
+  HiddenDeliveryPolicy,
+  HeartbeatOptions,
+  AdaptiveHeartbeatOptions,
+  LatencyInfo,
+  LeaderElectionOptions,
+  LifecycleState,
+  MutationContext,
+  OutboundQueueOptions,
+  PatchOperation,
+  QueueOverflow,
+  ReconnectOptions,
+  RequestContext,
+  RequestHandler,
+  RequestOptions,
+  SendOptions,
+  SerializedError,
+  SharedStateOptions,
+  SharedWorkerLike,
+  StaleEvent,
+  StaleReason,
+  ShutdownNotice,
+  ShutdownOptions,
+  StateMutation,
+  StateSnapshot,
+  StreamHandler,
+  StreamOptions,
+  UpstreamReconnectOptions,
+  UpstreamSocketOptions,
+  UpstreamState,
+  UpstreamStatus,
+  UserIdleOptions,
+  WebSocketLike,
 } from './types'
@@ -0,0 +1,168 @@
+import type { PatchOperation } from './types'
+
+const OPERATIONS = new Set<string>(['add', 'remove', 'replace'])
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function hasKey(object: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key)
+}
+
+/**
+ * Escape a key for use in a JSON pointer (RFC 6901)
+ */
+function escapeSegment(segment: string | number): string {
+  return String(segment).split('~').join('~0').split('/').join('~1')
+}
+
+function parsePath(path: string): string[] {
+  if (path === '') return []
+  if (!path.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${path}"`)
+  }
+
+  const segments = path
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.split('~1').join('/').split('~0').join('~'))
+  // Assigning __proto__ on a copy would replace its prototype
+  if (segments.includes('__proto__')) {
+    throw new Error(`Unsafe JSON pointer "${path}"`)
+  }
+
+  return segments
+}
+
+/**
+ * Compute the operations that turn one JSON value into another
+ * Objects and arrays are compared by content, everything else by identity
+ */
+export function diff(
+  previous: unknown,
+  next: unknown,
+  path = ''
+): PatchOperation[] {
+  if (Object.is(previous, next)) return []
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const operations: PatchOperation[] = []
+    const common = Math.min(previous.length, next.length)
+
+    for (let index = 0; index < common; index++) {
+      operations.push(...diff(previous[index], next[index], `${path}/${index}`))
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let index = previous.length - 1; index >= next.length; index--) {
+      operations.push({ op: 'remove', path: `${path}/${index}` })
+    }
+    for (let index = previous.length; index < next.length; index++) {
+      operations.push({
+        op: 'add',
+        path: `${path}/${index}`,
+        value: next[index],
+      })
+    }
+
+    return operations
+  }
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const operations: PatchOperation[] = []
+
+    for (const key of Object.keys(previous)) {
+      if (!hasKey(next, key)) {
+        operations.push({ op: 'remove', path: `${path}/${escapeSegment(key)}` })
+      }
+    }
+    for (const key of Object.keys(next)) {
+      const keyPath = `${path}/${escapeSegment(key)}`
+      if (hasKey(previous, key)) {
+        operations.push(...diff(previous[key], next[key], keyPath))
+      } else {
+        operations.push({ op: 'add', path: keyPath, value: next[key] })
+      }
+    }
+
+    return operations
+  }
+
+  return [{ op: 'replace', path, value: next }]
+}
+
+function applyAt(
+  target: unknown,
+  segments: string[],
+  operation: PatchOperation
+): unknown {
+  const [segment, ...rest] = segments
+  const fail = (): never => {
+    throw new Error(`Cannot ${operation.op} "${operation.path}"`)
+  }
+
+  if (Array.isArray(target)) {
+    const index = segment === '-' ? target.length : Number(segment)
+    const limit =
+      operation.op === 'add' && rest.length === 0
+        ? target.length
+        : target.length - 1
+    if (!Number.isInteger(index) || index < 0 || index > limit) fail()
+
+    const copy = [...target]
+    if (rest.length > 0) {
+      copy[index] = applyAt(target[index], rest, operation)
+    } else if (operation.op === 'add') {
+      copy.splice(index, 0, operation.value)
+    } else if (operation.op === 'remove') {
+      copy.splice(index, 1)
+    } else {
+      copy[index] = operation.value
+    }
+    return copy
+  }
+
+  if (isPlainObject(target)) {
+    const exists = hasKey(target, segment)
+    if (!exists && (rest.length > 0 || operation.op !== 'add')) fail()
+
+    const copy = { ...target }
+    if (rest.length > 0) {
+      copy[segment] = applyAt(target[segment], rest, operation)
+    } else if (operation.op === 'remove') {
+      Reflect.deleteProperty(copy, segment)
+    } else {
+      copy[segment] = operation.value
+    }
+    return copy
+  }
+
+  return fail()
+}
+
+/**
+ * Apply patch operations to a JSON value without mutating it
+ * Unchanged branches are shared between the old and new value
+ * @throws Error if an operation's path does not exist
+ */
+export function applyPatch<T>(value: T, operations: PatchOperation[]): T {
+  let result: unknown = value
+
+  for (const operation of operations) {
+    if (!OPERATIONS.has(operation.op)) {
+      throw new Error(`Unknown patch operation "${String(operation.op)}"`)
+    }
+
+    const segments = parsePath(operation.path)
+    if (segments.length === 0) {
+      if (operation.op === 'remove') {
+        throw new Error('Cannot remove the root value')
+      }
+      result = operation.value
+    } else {
+      result = applyAt(result, segments, operation)
+    }
+  }
+
+  return result as T
+}
@@ -0,0 +1,550 @@
+import { createId } from './id'
+import { Logger } from './logger'
+import type {
+  ElectionStrategy,
+  LeaderElectionOptions,
+  SharedWorkerLike,
+} from './types'
+
+/**
+ * Messages exchanged between tabs over the BroadcastChannel
+ */
+type ChannelMessage =
+  | { kind: 'leader'; leaderId: string }
+  | { kind: 'query'; from: string; visible: boolean }
+  | { kind: 'visible'; from: string }
+  | { kind: 'abdicate'; leaderId: string }
+  | { kind: 'handoff'; leaderId: string; to: string }
+  | { kind: 'resign'; leaderId: string }
+  | {
+      kind: 'to-leader'
+      leaderId: string
+      connectionId: string
+      data: unknown
+    }
+  | { kind: 'to-client'; connectionId: string; data: unknown }
+  | { kind: 'close'; leaderId: string; connectionId: string }
+
+interface Lease {
+  id: string
+  expires: number
+}
+
+/**
+ * A connection from this tab to the worker logic running in the leader tab
+ * Stands in for a SharedWorker: emits 'error' when the leader changes
+ */
+class TabConnection extends EventTarget implements SharedWorkerLike {
+  readonly id: string
+  readonly port: MessagePort
+  /** End of the channel that is bridged to the leader */
+  readonly remotePort: MessagePort
+  /** Whether remotePort is routed to the leader yet */
+  attached = false
+
+  constructor(id: string, onClose: () => void) {
+    super()
+    this.id = id
+    const channel = new MessageChannel()
+    this.port = channel.port2
+    this.remotePort = channel.port1
+
+    // MessagePort has no close event, so closing it from the client is
+    // observed here
+    const close = this.port.close.bind(this.port)
+    this.port.close = () => {
+      close()
+      onClose()
+    }
+  }
+}
+
+/**
+ * Fallback for browsers without SharedWorker
+ * Elects one leader tab (Web Locks, or a localStorage lease) that runs the
+ * worker logic, and bridges every tab's connection to it over a BroadcastChannel
+ */
+export class LeaderElection extends Logger {
+  private readonly tabId = createId()
+  private readonly name: string
+  private readonly strategy: ElectionStrategy
+  private readonly start: LeaderElectionOptions['start']
+  private readonly stepDownWhenHidden: boolean
+  private readonly leaseDuration: number
+  private readonly onLeadershipChange?: (isLeader: boolean) => void
+  private readonly channel: BroadcastChannel
+  private readonly abortController = new AbortController()
+  private leaderId?: string
+  private cleanup?: () => void
+  private scope?: EventTarget
+  private handingOff = false
+  private connections: Map<string, TabConnection> = new Map()
+  private remoteConnections: Map<string, MessagePort> = new Map()
+  // Web Locks strategy
+  private lockController?: AbortController
+  private releaseLock?: () => void
+  // Storage strategy
+  private leaseIntervalId?: ReturnType<typeof setInterval>
+  private claimTimeoutId?: ReturnType<typeof setTimeout>
+
+  constructor(options: LeaderElectionOptions) {
+    super()
+    this.name = options.name
+    this.start = options.start
+    this.strategy =
+      options.strategy ??
+      (typeof navigator !== 'undefined' && 'locks' in navigator
+        ? 'locks'
+        : 'storage')
+    this.stepDownWhenHidden = options.stepDownWhenHidden ?? true
+    this.leaseDuration = options.leaseDuration ?? 5000
+    this.onLeadershipChange = options.onLeadershipChange
+    this.onLog = options.onLog
+
+    const { signal } = this.abortController
+    this.channel = new BroadcastChannel(`@shared-worker-utils/${this.name}`)
+    this.channel.addEventListener('message', this.handleChannelMessage, {
+      signal,
+    })
+    document.addEventListener('visibilitychange', this.handleVisibilityChange, {
+      signal,
+    })
+    window.addEventListener('pagehide', this.handlePageHide, { signal })
+    window.addEventListener('pageshow', this.handlePageShow, { signal })
+
+    this.joinElection()
+    this.log('LeaderElection initialized', 'info', {
+      tabId: this.tabId,
+      strategy: this.strategy,
+    })
+  }
+
+  /**
+   * Create a connection to the worker logic running in the leader tab
+   * Pass `() => election.connect()` to SharedWorkerClient so it reconnects
+   * when the leader changes
+   */
+  connect(): SharedWorkerLike {
+    const connection: TabConnection = new TabConnection(createId(), () =>
+      this.closeConnection(connection)
+    )
+    this.connections.set(connection.id, connection)
+
+    if (this.leaderId !== undefined) {
+      this.attach(connection)
+    }
+
+    return connection
+  }
+
+  /**
+   * Check if this tab is currently running the worker logic
+   */
+  isLeader(): boolean {
+    return this.leaderId === this.tabId
+  }
+
+  /**
+   * Step down if leading, close all connections and stop taking part in the election
+   */
+  destroy(): void {
+    if (this.abortController.signal.aborted) return
+
+    this.leaveElection()
+    this.abortController.abort()
+    this.channel.close()
+    this.log('LeaderElection destroyed', 'info')
+  }
+
+  /**
+   * Take part in the election and ask the other tabs who is leading
+   */
+  private joinElection(): void {
+    if (this.strategy === 'locks') {
+      this.requestLock()
+    } else {
+      this.leaseIntervalId = setInterval(
+        () => this.checkLease(),
+        this.leaseDuration / 2
+      )
+      this.checkLease()
+    }
+
+    this.post({ kind: 'query', from: this.tabId, visible: this.isVisible() })
+  }
+
+  /**
+   * Resign if leading and stop competing for leadership
+   */
+  private leaveElection(): void {
+    if (this.isLeader()) {
+      this.post({ kind: 'resign', leaderId: this.tabId })
+      if (this.strategy === 'storage') {
+        localStorage.removeItem(this.getLeaseKey())
+      }
+    }
+
+    this.stepDown()
+    this.failConnections()
+    this.leaderId = undefined
+    clearInterval(this.leaseIntervalId)
+    clearTimeout(this.claimTimeoutId)
+    this.claimTimeoutId = undefined
+    this.lockController?.abort()
+    this.lockController = undefined
+  }
+
+  /**
+   * A page entering the back/forward cache cannot run the worker logic, so
+   * it leaves the election until it is restored
+   */
+  private handlePageHide = (event: PageTransitionEvent): void => {
+    if (event.persisted) {
+      this.log('Leaving election for the back/forward cache', 'info')
+      this.leaveElection()
+    } else {
+      this.destroy()
+    }
+  }
+
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    if (!event.persisted || this.abortController.signal.aborted) return
+
+    this.log('Rejoining election after restore', 'info')
+    this.joinElection()
+  }
+
+  private isVisible(): boolean {
+    return !document.hidden
+  }
+
+  private post(message: ChannelMessage): void {
+    this.channel.postMessage(message)
+  }
+
+  /**
+   * Route a connection's messages to the leader
+   * In the leader tab the port is handed straight to the worker logic
+   */
+  private attach(connection: TabConnection): void {
+    if (connection.attached) return
+    connection.attached = true
+
+    if (this.isLeader()) {
+      this.dispatchConnect(connection.remotePort)
+      return
+    }
+
+    connection.remotePort.addEventListener('message', (event) => {
+      this.post({
+        kind: 'to-leader',
+        leaderId: this.leaderId as string,
+        connectionId: connection.id,
+        data: event.data,
+      })
+    })
+    connection.remotePort.start()
+  }
+
+  private dispatchConnect(port: MessagePort): void {
+    this.scope?.dispatchEvent(new MessageEvent('connect', { ports: [port] }))
+  }
+
+  /**
+   * Close this tab's connections so their clients reconnect to the new leader
+   */
+  private failConnections(): void {
+    for (const connection of this.connections.values()) {
+      this.closeConnection(connection)
+      connection.dispatchEvent(new Event('error'))
+    }
+  }
+
+  /**
+   * Forget a connection and let the leader release its end of the bridge
+   */
+  private closeConnection(connection: TabConnection): void {
+    if (!this.connections.delete(connection.id)) return
+
+    connection.remotePort.close()
+    if (
+      connection.attached &&
+      this.leaderId !== undefined &&
+      !this.isLeader()
+    ) {
+      this.post({
+        kind: 'close',
+        leaderId: this.leaderId,
+        connectionId: connection.id,
+      })
+    }
+  }
+
+  private handleChannelMessage = (event: MessageEvent): void => {
+    const message = event.data as ChannelMessage
+
+    switch (message.kind) {
+      case 'leader': {
+        this.setLeader(message.leaderId)
+        break
+      }
+      case 'query': {
+        if (this.isLeader()) {
+          this.post({ kind: 'leader', leaderId: this.tabId })
+          if (message.visible) this.handOffTo(message.from)
+        }
+        break
+      }
+      case 'visible': {
+        if (this.isLeader()) this.handOffTo(message.from)
+        break
+      }
+      case 'abdicate': {
+        if (message.leaderId === this.leaderId && this.isVisible()) {
+          this.post({ kind: 'visible', from: this.tabId })
+        }
+        break
+      }
+      case 'handoff': {
+        if (message.to === this.tabId) this.takeOver()
+        break
+      }
+      case 'resign': {
+        if (message.leaderId === this.leaderId) {
+          this.log('Leader resigned', 'info', { leaderId: message.leaderId })
+          this.leaderId = undefined
+          this.failConnections()
+          if (this.strategy === 'storage') this.checkLease()
+        }
+        break
+      }
+      case 'to-leader': {
+        if (message.leaderId === this.tabId && this.isLeader()) {
+          this.getRemotePort(message.connectionId).postMessage(message.data)
+        }
+        break
+      }
+      case 'close': {
+        if (message.leaderId === this.tabId) {
+          this.remoteConnections.get(message.connectionId)?.close()
+          this.remoteConnections.delete(message.connectionId)
+        }
+        break
+      }
+      case 'to-client': {
+        this.connections
+          .get(message.connectionId)
+          ?.remotePort.postMessage(message.data)
+        break
+      }
+    }
+  }
+
+  /**
+   * Get (or create) the leader-side port for a connection in another tab
+   */
+  private getRemotePort(connectionId: string): MessagePort {
+    let port = this.remoteConnections.get(connectionId)
+    if (port) return port
+
+    const channel = new MessageChannel()
+    port = channel.port2
+    port.addEventListener('message', (event) => {
+      this.post({ kind: 'to-client', connectionId, data: event.data })
+    })
+    port.start()
+    this.remoteConnections.set(connectionId, port)
+    this.dispatchConnect(channel.port1)
+
+    return port
+  }
+
+  private setLeader(leaderId: string): void {
+    if (leaderId === this.leaderId) return
+
+    const previousLeader = this.leaderId
+    if (previousLeader === this.tabId) {
+      this.stepDown()
+    } else if (previousLeader !== undefined) {
+      this.failConnections()
+    }
+
+    this.leaderId = leaderId
+    this.log('Leader changed', 'info', { leaderId, previousLeader })
+
+    // Connections created while no leader was known
+    for (const connection of this.connections.values()) {
+      this.attach(connection)
+    }
+  }
+
+  private becomeLeader(): void {
+    if (this.isLeader() || this.abortController.signal.aborted) return
+
+    this.log('Became leader', 'info', { tabId: this.tabId })
+    this.handingOff = false
+    this.scope = new EventTarget()
+    this.cleanup = this.start(this.scope) ?? undefined
+    this.setLeader(this.tabId)
+    this.post({ kind: 'leader', leaderId: this.tabId })
+    this.onLeadershipChange?.(true)
+
+    if (!this.isVisible()) this.abdicate()
+  }
+
+  /**
+   * Stop running the worker logic and close the connections attached to it
+   */
+  private stepDown(): void {
+    if (!this.isLeader()) return
+
+    this.leaderId = undefined
+    this.handingOff = false
+    this.cleanup?.()
+    this.cleanup = undefined
+    this.scope = undefined
+    for (const port of this.remoteConnections.values()) {
+      port.close()
+    }
+    this.remoteConnections.clear()
+    this.failConnections()
+    this.releaseLock?.()
+    this.log('Stepped down as leader', 'info', { tabId: this.tabId })
+    this.onLeadershipChange?.(false)
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (this.isVisible()) {
+      this.handingOff = false
+      if (!this.isLeader()) this.post({ kind: 'visible', from: this.tabId })
+    } else if (this.isLeader()) {
+      this.abdicate()
+    }
+  }
+
+  /**
+   * Ask visible tabs to take over from this hidden leader
+   */
+  private abdicate(): void {
+    if (!this.stepDownWhenHidden) return
+    this.post({ kind: 'abdicate', leaderId: this.tabId })
+  }
+
+  /**
+   * Hand leadership to a visible tab while this leader is hidden
+   */
+  private handOffTo(tabId: string): void {
+    if (!this.stepDownWhenHidden || this.isVisible() || this.handingOff) return
+
+    this.handingOff = true
+    this.log('Handing off leadership to visible tab', 'info', { to: tabId })
+    this.post({ kind: 'handoff', leaderId: this.tabId, to: tabId })
+
+    if (this.strategy === 'storage') {
+      this.writeLease(tabId)
+      this.stepDown()
+    }
+    // With Web Locks the successor steals the lock, which ends this tab's term
+  }
+
+  private takeOver(): void {
+    if (this.isLeader()) return
+
+    this.log('Taking over leadership', 'info')
+    if (this.strategy === 'locks') {
+      this.requestLock(true)
+    } else {
+      this.writeLease(this.tabId)
+      this.becomeLeader()
+    }
+  }
+
+  /**
+   * Queue for the leader lock (or steal it on handoff)
+   * The lock is held until the tab steps down, closes or has it stolen
+   */
+  private requestLock(steal = false): void {
+    this.lockController?.abort()
+    const controller = new AbortController()
+    this.lockController = controller
+
+    navigator.locks
+      .request(
+        `@shared-worker-utils/${this.name}`,
+        steal ? { steal: true } : { signal: controller.signal },
+        () =>
+          new Promise<void>((resolve) => {
+            this.releaseLock = () => {
+              this.releaseLock = undefined
+              resolve()
+            }
+            this.becomeLeader()
+          })
+      )
+      .catch(() => {
+        // Aborted by destroy() or a newer request, or stolen by a successor
+      })
+      .finally(() => {
+        if (this.lockController !== controller) return
+
+        this.stepDown()
+        if (!this.abortController.signal.aborted) this.requestLock()
+      })
+  }
+
+  private getLeaseKey(): string {
+    return `@shared-worker-utils/${this.name}/leader`
+  }
+
+  private readLease(): Lease | undefined {
+    try {
+      const value = localStorage.getItem(this.getLeaseKey())
+      return value ? (JSON.parse(value) as Lease) : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private writeLease(id: string): void {
+    const lease: Lease = { id, expires: Date.now() + this.leaseDuration }
+    localStorage.setItem(this.getLeaseKey(), JSON.stringify(lease))
+  }
+
+  /**
+   * Renew the lease while leading, or claim it once it has expired
+   * A claim is confirmed after a short delay so racing tabs settle on one winner
+   */
+  private checkLease(): void {
+    const lease = this.readLease()
+    const expired = !lease || lease.expires <= Date.now()
+
+    if (this.isLeader()) {
+      if (lease?.id === this.tabId || expired) {
+        this.writeLease(this.tabId)
+      } else {
+        this.log('Lease taken by another tab', 'warn', { leaderId: lease?.id })
+        this.stepDown()
+      }
+      return
+    }
+
+    if (lease?.id === this.tabId) {
+      this.becomeLeader()
+      return
+    }
+
+    if (!expired || this.claimTimeoutId !== undefined) return
+
+    this.writeLease(this.tabId)
+    this.claimTimeoutId = setTimeout(() => {
+      this.claimTimeoutId = undefined
+      if (this.readLease()?.id === this.tabId) {
+        this.becomeLeader()
+      }
+    }, 50)
+  }
+
+  protected getLogPrefix(): string {
+    return '[LeaderElection]'
+  }
+}
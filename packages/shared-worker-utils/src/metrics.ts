@@ -0,0 +1,185 @@
+import { isArrayBuffer } from './codec'
+import type {
+  AggregateMetrics,
+  ClientCounters,
+  ClientMetrics,
+  ClientState,
+} from './types'
+
+/**
+ * Estimate the size of a message in bytes
+ * Binary data counts its byte length and strings their length. This is an
+ * estimate for graphs, not the exact size of the structured clone
+ */
+export function estimateSize(value: unknown): number {
+  const seen = new Set<object>()
+
+  const measure = (entry: unknown): number => {
+    switch (typeof entry) {
+      case 'string': {
+        return entry.length
+      }
+      case 'number':
+      case 'bigint': {
+        return 8
+      }
+      case 'boolean': {
+        return 4
+      }
+      case 'object': {
+        break
+      }
+      default: {
+        return 0
+      }
+    }
+
+    if (entry === null || seen.has(entry)) return 0
+    seen.add(entry)
+
+    if (isArrayBuffer(entry) || ArrayBuffer.isView(entry)) {
+      return entry.byteLength
+    }
+    if (typeof Blob !== 'undefined' && entry instanceof Blob) return entry.size
+
+    let size = 0
+    if (entry instanceof Map) {
+      for (const [key, item] of entry) size += measure(key) + measure(item)
+    } else if (Array.isArray(entry) || entry instanceof Set) {
+      for (const item of entry) size += measure(item)
+    } else {
+      for (const [key, item] of Object.entries(entry)) {
+        size += key.length + measure(item)
+      }
+    }
+    return size
+  }
+
+  return measure(value)
+}
+
+export function createClientCounters(now = Date.now()): ClientCounters {
+  return {
+    connectedAt: now,
+    messagesIn: 0,
+    messagesOut: 0,
+    bytesIn: 0,
+    bytesOut: 0,
+    staleTransitions: 0,
+    latencySum: 0,
+    latencySamples: 0,
+    visibleTime: 0,
+    hiddenTime: 0,
+    visibilityChangedAt: now,
+  }
+}
+
+/**
+ * Add the time since the last visibility change to the visible or hidden time
+ */
+export function recordVisibility(
+  counters: ClientCounters,
+  wasVisible: boolean,
+  now = Date.now()
+): void {
+  const elapsed = now - counters.visibilityChangedAt
+  if (wasVisible) {
+    counters.visibleTime += elapsed
+  } else {
+    counters.hiddenTime += elapsed
+  }
+  counters.visibilityChangedAt = now
+}
+
+/**
+ * Record the round-trip time of a ping answered by a pong
+ * @param sentAt - Timestamp of the ping, echoed by the pong. Pongs from
+ * clients that do not echo it are timed from the last ping sent
+ * @returns The round-trip time, or undefined if the pong cannot be timed
+ */
+export function recordPong(
+  counters: ClientCounters,
+  sentAt = counters.pingSentAt,
+  now = Date.now()
+): number | undefined {
+  if (sentAt === undefined || sentAt > now) return undefined
+
+  counters.latency = now - sentAt
+  counters.latencySum += counters.latency
+  counters.latencySamples++
+  counters.pingSentAt = undefined
+  return counters.latency
+}
+
+export function getClientMetrics(
+  client: ClientState,
+  now = Date.now()
+): ClientMetrics {
+  const { counters } = client
+  // Include the time since the last visibility change
+  const current = now - counters.visibilityChangedAt
+
+  return {
+    ...(client.id !== undefined && { id: client.id }),
+    status: client.status,
+    visible: client.visible,
+    connectedFor: now - counters.connectedAt,
+    ...(counters.latency !== undefined && {
+      latency: counters.latency,
+      averageLatency: counters.latencySum / counters.latencySamples,
+    }),
+    messagesIn: counters.messagesIn,
+    messagesOut: counters.messagesOut,
+    bytesIn: counters.bytesIn,
+    bytesOut: counters.bytesOut,
+    visibleTime: counters.visibleTime + (client.visible ? current : 0),
+    hiddenTime: counters.hiddenTime + (client.visible ? 0 : current),
+    staleTransitions: counters.staleTransitions,
+    heldMessages: client.heldMessages.size,
+    queuedMessages: client.rateLimit?.queue.length ?? 0,
+    pendingRequests: client.pendingRequests.size,
+  }
+}
+
+export function getAggregateMetrics(
+  clients: ClientMetrics[]
+): AggregateMetrics {
+  const totals: AggregateMetrics = {
+    clients: clients.length,
+    active: 0,
+    stale: 0,
+    messagesIn: 0,
+    messagesOut: 0,
+    bytesIn: 0,
+    bytesOut: 0,
+    staleTransitions: 0,
+    heldMessages: 0,
+    queuedMessages: 0,
+    pendingRequests: 0,
+  }
+  let latencySum = 0
+  let latencySamples = 0
+
+  for (const client of clients) {
+    if (client.status === 'stale') {
+      totals.stale++
+    } else if (client.visible) {
+      totals.active++
+    }
+    totals.messagesIn += client.messagesIn
+    totals.messagesOut += client.messagesOut
+    totals.bytesIn += client.bytesIn
+    totals.bytesOut += client.bytesOut
+    totals.staleTransitions += client.staleTransitions
+    totals.heldMessages += client.heldMessages
+    totals.queuedMessages += client.queuedMessages
+    totals.pendingRequests += client.pendingRequests
+    if (client.latency !== undefined) {
+      latencySum += client.latency
+      latencySamples++
+    }
+  }
+
+  if (latencySamples > 0) totals.averageLatency = latencySum / latencySamples
+  return totals
+}
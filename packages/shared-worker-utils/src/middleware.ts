@@ -0,0 +1,115 @@
+import { isPromise } from './codec'
+import type { Middleware, MiddlewareDirection } from './types'
+
+/**
+ * Runs messages through a list of Koa-style middleware
+ * While async middleware is busy, later messages in the same direction wait
+ * so they are delivered in order. With only sync middleware (or none)
+ * everything happens synchronously
+ * @template TContext - The context passed to each middleware
+ */
+export class MiddlewareChain<
+  TContext extends { direction: MiddlewareDirection },
+> {
+  private middleware: Array<Middleware<TContext>>
+  private queues: Partial<Record<MiddlewareDirection, Promise<void>>> = {}
+
+  constructor(middleware: Array<Middleware<TContext>> = []) {
+    this.middleware = [...middleware]
+  }
+
+  /**
+   * Add a middleware to the end of the chain
+   * @returns Function that removes the middleware
+   */
+  use(middleware: Middleware<TContext>): () => void {
+    this.middleware = [...this.middleware, middleware]
+
+    return () => {
+      this.middleware = this.middleware.filter((entry) => entry !== middleware)
+    }
+  }
+
+  /**
+   * Check if messages currently go through the chain
+   */
+  isActive(): boolean {
+    return this.middleware.length > 0 || Object.keys(this.queues).length > 0
+  }
+
+  /**
+   * Run a message through the chain and pass its context to done() if every
+   * middleware called next()
+   * An error thrown by done() is not a middleware error, so it is rethrown
+   * rather than passed to onError
+   */
+  run(
+    context: TContext,
+    done: (context: TContext) => void,
+    onError: (error: unknown, context: TContext) => void
+  ): void {
+    const { direction } = context
+    const queue = this.queues[direction]
+
+    if (this.middleware.length === 0 && !queue) {
+      done(context)
+      return
+    }
+
+    const finish = (): void => {
+      try {
+        done(context)
+      } catch (error) {
+        queueMicrotask(() => {
+          throw error
+        })
+      }
+    }
+    // Taken now so middleware added while this message waits does not see it
+    const { middleware } = this
+    const execute = (): void | Promise<void> =>
+      this.dispatch(middleware, context, 0, finish)
+
+    let work: Promise<void>
+    if (queue) {
+      work = queue.then(execute)
+    } else {
+      let result: void | Promise<void>
+      try {
+        result = execute()
+      } catch (error) {
+        onError(error, context)
+        return
+      }
+
+      if (!isPromise(result)) return
+      work = result
+    }
+
+    const pending = work.catch((error: unknown) => onError(error, context))
+    this.queues[direction] = pending
+    void pending.then(() => {
+      if (this.queues[direction] === pending) delete this.queues[direction]
+    })
+  }
+
+  private dispatch(
+    middleware: Array<Middleware<TContext>>,
+    context: TContext,
+    index: number,
+    finish: () => void
+  ): void | Promise<void> {
+    const current = middleware[index]
+    if (!current) {
+      finish()
+      return
+    }
+
+    let called = false
+    return current(context, () => {
+      if (called) throw new Error('next() called multiple times')
+      called = true
+      return this.dispatch(middleware, context, index + 1, finish)
+    })
+  }
+}
@@ -1,6 +1,72 @@
-import { MESSAGE_TYPES } from './constants'
+import { ActivityMonitor } from './activity'
+import { CodecPipeline } from './codec'
+import { isInternalMessage, MESSAGE_TYPES, PROTOCOL_VERSION } from './constants'
+import { validateMessage } from './contract'
+import { serializeError } from './errors'
+import { createHeartbeatPolicy, getPingTimeout } from './heartbeat'
 import { Logger } from './logger'
-import type { PortManagerOptions, ClientState } from './types'
+import {
+  createClientCounters,
+  estimateSize,
+  getAggregateMetrics,
+  getClientMetrics,
+  recordPong,
+  recordVisibility,
+} from './metrics'
+import { MiddlewareChain } from './middleware'
+import {
+  createRateLimitState,
+  getRateLimitTarget,
+  getWaitTime,
+  isRecovered,
+  takeToken,
+} from './rate-limit'
+import type { RateLimitTarget } from './rate-limit'
+import type {
+  PortManagerOptions,
+  ClientInfo,
+  ClientMetadata,
+  ClientRemoveReason,
+  ClientSnapshot,
+  ClientState,
+  ConnectAckMessage,
+  ConnectMessage,
+  HeartbeatPolicy,
+  HiddenDeliveryPolicy,
+  LatencyMessage,
+  LivenessLockMessage,
+  MessageContract,
+  MessageRejectedMessage,
+  MessageRejection,
+  Middleware,
+  PortManagerMetrics,
+  PortManagerMiddlewareContext,
+  PingMessage,
+  PongMessage,
+  RateLimitAction,
+  ReadyMessage,
+  RateLimitedMessage,
+  RateLimitEvent,
+  RateLimitOptions,
+  RateLimitState,
+  RequestHandler,
+  RequestMessage,
+  ResponseMessage,
+  SendOptions,
+  SerializedError,
+  ShutdownMessage,
+  StaleEvent,
+  ShutdownOptions,
+  StreamChunkMessage,
+  StreamHandler,
+  ProtocolVersion,
+  SubscribeMessage,
+  UnsubscribeMessage,
+  UserActivityMessage,
+  VersionMismatch,
+  VersionMismatchAction,
+  VisibilityChangeMessage,
+} from './types'
 
 /**
  * Manages MessagePort connections in a SharedWorker
@@ -9,23 +75,107 @@ import type { PortManagerOptions, ClientState } from './types'
  */
 export class PortManager<TMessage = unknown> extends Logger {
   private clients: Map<MessagePort, ClientState> = new Map()
+  private clientPorts: Map<string, MessagePort> = new Map()
   private pingInterval: number
-  private pingTimeout: number
+  private heartbeat: HeartbeatPolicy
   private staleClientTimeout?: number
+  private hiddenDelivery: HiddenDeliveryPolicy
   private onActiveCountChange?: (
     activeCount: number,
     totalCount: number
   ) => void
+  private activity: ActivityMonitor
+  private countListeners: Set<
+    (activeCount: number, totalCount: number) => void
+  > = new Set()
   private onMessage?: (port: MessagePort, message: TMessage) => void
+  private contract?: MessageContract<TMessage, unknown>
+  private codecs: CodecPipeline
+  private middleware: MiddlewareChain<PortManagerMiddlewareContext>
+  private reportInvalidMessages: boolean
+  private onMessageRejected?: (
+    port: MessagePort,
+    rejection: MessageRejection
+  ) => void
+  private rateLimit?: RateLimitOptions
+  private onRateLimited?: (port: MessagePort, event: RateLimitEvent) => void
+  private protocolVersion?: ProtocolVersion
+  private isCompatibleVersion: (
+    clientVersion: ProtocolVersion | undefined,
+    workerVersion: ProtocolVersion
+  ) => boolean
+  private versionMismatchAction: VersionMismatchAction
+  private onClientConnect?: (port: MessagePort, client: ClientSnapshot) => void
+  private onClientVisibilityChange?: (
+    port: MessagePort,
+    client: ClientSnapshot
+  ) => void
+  private onClientFocusChange?: (
+    port: MessagePort,
+    client: ClientSnapshot
+  ) => void
+  private onClientUserIdleChange?: (
+    port: MessagePort,
+    client: ClientSnapshot
+  ) => void
+  private onClientStale?: (
+    port: MessagePort,
+    event: StaleEvent,
+    client: ClientSnapshot
+  ) => void
+  private onClientRestore?: (port: MessagePort, client: ClientSnapshot) => void
+  private onClientRemove?: (
+    port: MessagePort,
+    client: ClientSnapshot,
+    reason: ClientRemoveReason
+  ) => void
+  private onTopicOpen?: (topic: string) => void
+  private onTopicClose?: (topic: string) => void
+  private isReady: boolean
+  private readyClientIds: Set<string> = new Set()
+  private handlers: Map<string, RequestHandler> = new Map()
+  private streamHandlers: Map<string, StreamHandler> = new Map()
+  private topics: Map<string, number> = new Map()
   private pingIntervalId: ReturnType<typeof setInterval>
+  private onMetrics?: (metrics: PortManagerMetrics) => void
+  private metricsIntervalId?: ReturnType<typeof setInterval>
+  private shutdownPromise?: Promise<void>
+  private shutdownNotice?: { reason?: string; deadline: number }
+  private onDrained?: () => void
 
   constructor(options: PortManagerOptions<TMessage> = {}) {
     super()
     this.pingInterval = options.pingInterval ?? 10_000
-    this.pingTimeout = options.pingTimeout ?? 5000
+    this.heartbeat = createHeartbeatPolicy(
+      options.pingTimeout ?? 5000,
+      options.heartbeat
+    )
     this.staleClientTimeout = options.staleClientTimeout
+    this.hiddenDelivery = options.hiddenDelivery ?? { mode: 'deliver' }
     this.onActiveCountChange = options.onActiveCountChange
     this.onMessage = options.onMessage
+    this.contract = options.contract
+    this.codecs = new CodecPipeline(options.codec)
+    this.middleware = new MiddlewareChain(options.middleware)
+    this.reportInvalidMessages = options.reportInvalidMessages ?? false
+    this.onMessageRejected = options.onMessageRejected
+    this.rateLimit = options.rateLimit
+    this.onRateLimited = options.onRateLimited
+    this.protocolVersion = options.protocolVersion
+    this.isCompatibleVersion =
+      options.isCompatibleVersion ??
+      ((clientVersion, workerVersion) => clientVersion === workerVersion)
+    this.versionMismatchAction = options.versionMismatchAction ?? 'warn'
+    this.onClientConnect = options.onClientConnect
+    this.onClientVisibilityChange = options.onClientVisibilityChange
+    this.onClientFocusChange = options.onClientFocusChange
+    this.onClientUserIdleChange = options.onClientUserIdleChange
+    this.onClientStale = options.onClientStale
+    this.onClientRestore = options.onClientRestore
+    this.onClientRemove = options.onClientRemove
+    this.onTopicOpen = options.onTopicOpen
+    this.onTopicClose = options.onTopicClose
+    this.isReady = !options.deferReady
     this.onLog = options.onLog
 
     // Start ping interval
@@ -34,6 +184,27 @@ export class PortManager<TMessage = unknown> extends Logger {
       this.pingInterval
     )
 
+    this.activity = new ActivityMonitor({
+      idleDelay: options.idleDelay ?? 5000,
+      activeDelay: options.activeDelay ?? 0,
+      onIdle: () => {
+        this.log('Idle', 'info')
+        options.onIdle?.()
+      },
+      onActive: () => {
+        this.log('Active', 'info')
+        options.onActive?.()
+      },
+    })
+
+    this.onMetrics = options.onMetrics
+    if (this.onMetrics) {
+      this.metricsIntervalId = setInterval(
+        () => this.onMetrics?.(this.getMetrics()),
+        options.metricsInterval ?? 10_000
+      )
+    }
+
     this.log('PortManager initialized', 'info')
   }
 
@@ -44,6 +215,94 @@ export class PortManager<TMessage = unknown> extends Logger {
     this.addClient(port)
     this.updateClientCount()
     port.start()
+
+    // Clients connecting during a shutdown should come back later
+    if (this.shutdownNotice) this.sendShutdown(port)
+  }
+
+  /**
+   * Shut down gracefully: tell clients, reject new requests and wait for
+   * in-flight handlers to finish (at most drainTimeout) before closing all
+   * ports. Call self.close() afterwards so reconnecting clients get a new
+   * SharedWorker
+   * @returns Promise that resolves once the ports are closed
+   */
+  shutdown(options: ShutdownOptions = {}): Promise<void> {
+    if (this.shutdownPromise) return this.shutdownPromise
+
+    const { reason, drainTimeout = 5000 } = options
+    this.shutdownNotice = { reason, deadline: Date.now() + drainTimeout }
+    clearInterval(this.pingIntervalId)
+    this.log('Shutting down', 'info', {
+      reason,
+      drainTimeout,
+      pendingRequests: this.getPendingRequestCount(),
+    })
+
+    for (const port of this.clients.keys()) this.sendShutdown(port)
+
+    this.shutdownPromise = new Promise<void>((resolve) => {
+      const timeoutId = setTimeout(() => {
+        this.log('Drain timed out, aborting requests', 'warn', {
+          pendingRequests: this.getPendingRequestCount(),
+        })
+        resolve()
+      }, drainTimeout)
+
+      this.onDrained = () => {
+        clearTimeout(timeoutId)
+        resolve()
+      }
+      this.checkDrained()
+    }).then(() => {
+      this.onDrained = undefined
+      this.closeAll()
+    })
+
+    return this.shutdownPromise
+  }
+
+  private sendShutdown(port: MessagePort): void {
+    const { reason, deadline } = this.shutdownNotice as {
+      reason?: string
+      deadline: number
+    }
+    this.post(port, {
+      type: MESSAGE_TYPES.SHUTDOWN,
+      ...(reason !== undefined && { reason }),
+      drainTimeout: Math.max(0, deadline - Date.now()),
+    } satisfies ShutdownMessage)
+  }
+
+  private getPendingRequestCount(): number {
+    let count = 0
+    for (const client of this.clients.values()) {
+      count += client.pendingRequests.size
+    }
+    return count
+  }
+
+  /**
+   * Finish draining once the last in-flight handler has settled
+   */
+  private checkDrained(): void {
+    if (this.onDrained && this.getPendingRequestCount() === 0) {
+      this.onDrained()
+    }
+  }
+
+  /**
+   * Abort what is left after draining and close every port
+   */
+  private closeAll(): void {
+    for (const [port, client] of this.clients) {
+      this.abortRequests(port, client, 'SharedWorker shut down')
+    }
+
+    const ports = [...this.clients.keys()]
+    this.destroy()
+    for (const port of ports) port.close()
+    this.log('Shutdown complete', 'info', { closedPorts: ports.length })
   }
 
   /**
@@ -54,15 +313,23 @@ export class PortManager<TMessage = unknown> extends Logger {
     const controller = new AbortController()
     this.clients.set(port, {
       visible: true,
+      lifecycle: 'visible',
+      focused: false,
+      userIdle: false,
       lastSeen: Date.now(),
       controller,
       status: 'connected',
+      pendingRequests: new Map(),
+      topics: new Set(),
+      heldMessages: new Map(),
+      ready: false,
+      counters: createClientCounters(),
     })
 
     port.addEventListener(
       'message',
       (event) => {
-        this.handleMessage(port, event.data)
+        this.receive(port, event.data)
       },
       { signal: controller.signal }
     )
@@ -103,29 +370,569 @@ export class PortManager<TMessage = unknown> extends Logger {
 
   /**
    * Remove a client from the manager
-   * Aborts the message listener and removes from the clients map
+   * Aborts the message listener and removes from the clients map. A port
+   * 'replaced' by the same client reconnecting is not reported
    */
-  private removeClient(port: MessagePort): void {
+  private removeClient(
+    port: MessagePort,
+    reason: ClientRemoveReason | 'replaced'
+  ): void {
     const client = this.clients.get(port)
     if (client) {
+      this.abortRequests(port, client, 'Client removed')
+      for (const topic of client.topics) {
+        this.removeSubscription(client, topic)
+      }
       client.controller.abort()
+      clearTimeout(client.rateLimit?.drainTimeoutId)
       this.clients.delete(port)
       this.log('Client removed', 'info', {
+        reason,
         remainingClients: this.clients.size,
       })
+
+      if (reason !== 'replaced') {
+        this.onClientRemove?.(port, this.toClientSnapshot(client), reason)
+      }
+
+      if (client.id !== undefined && this.clientPorts.get(client.id) === port) {
+        this.clientPorts.delete(client.id)
+        this.readyClientIds.delete(client.id)
+      }
+    }
+  }
+
+  /**
+   * Register the ID and metadata a client sent with the connect handshake
+   * A reconnecting client (same ID, new port) replaces its previous port
+   */
+  private identifyClient(
+    port: MessagePort,
+    client: ClientState,
+    message: ConnectMessage
+  ): void {
+    const { clientId, metadata, protocolVersion } = message
+    const mismatch = this.checkVersion(message)
+
+    this.post(port, {
+      type: MESSAGE_TYPES.CONNECT_ACK,
+      libraryVersion: PROTOCOL_VERSION,
+      ...(this.protocolVersion !== undefined && {
+        protocolVersion: this.protocolVersion,
+      }),
+      ...(mismatch && { mismatch }),
+    } satisfies ConnectAckMessage)
+
+    if (mismatch) {
+      this.log('Client version mismatch', 'warn', { clientId, ...mismatch })
+
+      if (mismatch.action === 'reject') {
+        this.removeClient(port, 'version-mismatch')
+        this.updateClientCount()
+        return
+      }
+    }
+
+    const previousPort = this.clientPorts.get(clientId)
+
+    client.id = clientId
+    client.metadata = metadata
+    client.protocolVersion = protocolVersion
+    this.clientPorts.set(clientId, port)
+
+    if (previousPort === port) return
+
+    if (previousPort) {
+      this.log('Client reconnected on a new port', 'info', { clientId })
+      client.hiddenDelivery = this.clients.get(previousPort)?.hiddenDelivery
+      this.removeClient(previousPort, 'replaced')
+      this.updateClientCount()
+    } else {
+      this.log('Client identified', 'info', { clientId, url: metadata.url })
+      this.onClientConnect?.(port, this.toClientSnapshot(client))
+    }
+
+    if (this.isReady || this.readyClientIds.has(clientId)) {
+      this.sendReady(port)
+    }
+  }
+
+  /**
+   * Wait for the Web Lock a client holds for its lifetime
+   * The lock is only granted once the client's tab has closed or crashed, so
+   * the client is removed right away instead of after a ping timeout
+   */
+  private watchLivenessLock(
+    port: MessagePort,
+    client: ClientState,
+    name: string
+  ): void {
+    if (client.livenessLock !== undefined) return
+    if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+      this.log('Web Locks not supported, relying on heartbeats', 'debug')
+      return
+    }
+
+    client.livenessLock = name
+    this.log('Watching client liveness lock', 'debug', { name })
+    navigator.locks
+      .request(name, { signal: client.controller.signal }, () => {
+        if (this.clients.get(port) !== client) return
+
+        this.log('Client liveness lock released', 'info', { name })
+        this.removeClient(port, 'closed')
+        this.updateClientCount()
+      })
+      .catch(() => {
+        // Aborted when the client was removed some other way
+      })
+  }
+
+  /**
+   * Tell clients the SharedWorker is ready for their messages
+   * Without an ID, every client (including those connecting later) is told.
+   * With an ID, only that client is, for example once it has authenticated.
+   * Only needed with the deferReady option
+   * @returns false if no client has the ID
+   */
+  ready(id?: string): boolean {
+    if (id === undefined) {
+      if (!this.isReady) {
+        this.isReady = true
+        this.log('SharedWorker ready', 'info')
+        for (const port of this.clientPorts.values()) this.sendReady(port)
+      }
+      return true
+    }
+
+    const port = this.clientPorts.get(id)
+    if (!port) return false
+
+    this.readyClientIds.add(id)
+    this.sendReady(port)
+    return true
+  }
+
+  private sendReady(port: MessagePort): void {
+    const client = this.clients.get(port)
+    if (!client || client.ready) return
+
+    client.ready = true
+    this.post(port, { type: MESSAGE_TYPES.READY } satisfies ReadyMessage)
+  }
+
+  /**
+   * Compare the versions a client sent with the connect handshake to our own
+   * @returns Mismatch details, or undefined if the client is compatible
+   */
+  private checkVersion(message: ConnectMessage): VersionMismatch | undefined {
+    const libraryCompatible = message.libraryVersion === PROTOCOL_VERSION
+    const protocolCompatible =
+      this.protocolVersion === undefined ||
+      this.isCompatibleVersion(message.protocolVersion, this.protocolVersion)
+
+    if (libraryCompatible && protocolCompatible) return undefined
+
+    return {
+      ...(message.libraryVersion !== undefined && {
+        clientLibraryVersion: message.libraryVersion,
+      }),
+      workerLibraryVersion: PROTOCOL_VERSION,
+      ...(message.protocolVersion !== undefined && {
+        clientProtocolVersion: message.protocolVersion,
+      }),
+      ...(this.protocolVersion !== undefined && {
+        workerProtocolVersion: this.protocolVersion,
+      }),
+      action: this.versionMismatchAction,
+    }
+  }
+
+  private toClientInfo(client: ClientState): ClientInfo {
+    return {
+      id: client.id as string,
+      metadata: client.metadata as ClientMetadata,
+      visible: client.visible,
+      lifecycle: client.lifecycle,
+      focused: client.focused,
+      userIdle: client.userIdle,
+      status: client.status,
+      lastSeen: client.lastSeen,
+    }
+  }
+
+  private toClientSnapshot(client: ClientState): ClientSnapshot {
+    return {
+      id: client.id,
+      metadata: client.metadata,
+      protocolVersion: client.protocolVersion,
+      visible: client.visible,
+      lifecycle: client.lifecycle,
+      focused: client.focused,
+      userIdle: client.userIdle,
+      status: client.status,
+      staleReason: client.staleReason,
+      lastSeen: client.lastSeen,
+      livenessLock: client.livenessLock,
+    }
+  }
+
+  /**
+   * Get all clients that identified themselves with the connect handshake
+   */
+  getClients(): ClientInfo[] {
+    const clients: ClientInfo[] = []
+    for (const port of this.clientPorts.values()) {
+      const client = this.clients.get(port)
+      if (client) clients.push(this.toClientInfo(client))
+    }
+    return clients
+  }
+
+  /**
+   * Get a client by the ID it sent with the connect handshake
+   */
+  getClient(id: string): ClientInfo | undefined {
+    const port = this.clientPorts.get(id)
+    const client = port && this.clients.get(port)
+    return client ? this.toClientInfo(client) : undefined
+  }
+
+  /**
+   * Get the client whose tab the user is interacting with
+   * If several tabs report focus, the one that gained it last wins
+   * @returns undefined if no connected client has focus
+   */
+  getFocusedClient(): ClientInfo | undefined {
+    let focused: ClientState | undefined
+    for (const port of this.clientPorts.values()) {
+      const client = this.clients.get(port)
+      if (!client?.focused || !this.isConnected(client)) continue
+      if (!focused || (client.focusedAt ?? 0) > (focused.focusedAt ?? 0)) {
+        focused = client
+      }
+    }
+    return focused ? this.toClientInfo(focused) : undefined
+  }
+
+  /**
+   * Send a message to a single client by ID
+   * @returns false if the client is unknown or stale
+   */
+  sendTo(id: string, message: unknown, options: SendOptions = {}): boolean {
+    const port = this.clientPorts.get(id)
+    const client = port && this.clients.get(port)
+    if (!port || !client || !this.isConnected(client)) return false
+
+    this.post(port, message, options.transfer)
+    return true
+  }
+
+  /**
+   * Override the hidden delivery policy for a single client by ID
+   * Pass undefined to go back to PortManagerOptions.hiddenDelivery
+   * @returns false if the client is unknown
+   */
+  setHiddenDelivery(id: string, policy?: HiddenDeliveryPolicy): boolean {
+    const port = this.clientPorts.get(id)
+    const client = port && this.clients.get(port)
+    if (!port || !client) return false
+
+    client.hiddenDelivery = policy
+    if ((policy ?? this.hiddenDelivery).mode === 'deliver') {
+      this.flushHeldMessages(port, client)
+    }
+    return true
+  }
+
+  /**
+   * Register a handler for requests made with SharedWorkerClient.request()
+   * The handler's return value (or thrown error) is sent back to the calling port
+   * @returns Function that unregisters the handler
+   */
+  handle<TParameters = unknown, TResult = unknown>(
+    method: string,
+    handler: RequestHandler<TParameters, TResult>
+  ): () => void {
+    this.handlers.set(method, handler as RequestHandler)
+
+    return () => {
+      if (this.handlers.get(method) === handler) {
+        this.handlers.delete(method)
+      }
+    }
+  }
+
+  /**
+   * Register a handler for streams opened with SharedWorkerClient.stream()
+   * Each chunk the handler yields is sent to the calling port. The handler's
+   * signal is aborted when the client cancels the stream or goes stale
+   * @returns Function that unregisters the handler
+   */
+  handleStream<TParameters = unknown, TChunk = unknown>(
+    method: string,
+    handler: StreamHandler<TParameters, TChunk>
+  ): () => void {
+    this.streamHandlers.set(method, handler as StreamHandler)
+
+    return () => {
+      if (this.streamHandlers.get(method) === handler) {
+        this.streamHandlers.delete(method)
+      }
+    }
+  }
+
+  /**
+   * Add a middleware that runs after those already added
+   * Inbound middleware sees every decoded message from a client before it is
+   * handled, outbound middleware every message to a client before it is
+   * encoded. Fan-out sends run outbound middleware once per recipient
+   * @returns Function that removes the middleware
+   */
+  use(middleware: Middleware<PortManagerMiddlewareContext>): () => void {
+    return this.middleware.use(middleware)
+  }
+
+  /**
+   * Call a listener whenever the active or total client count changes, like
+   * onActiveCountChange. Lets modules such as UpstreamSocket follow the counts
+   * @returns Function that removes the listener
+   */
+  watchClientCount(
+    listener: (activeCount: number, totalCount: number) => void
+  ): () => void {
+    this.countListeners.add(listener)
+
+    return () => {
+      this.countListeners.delete(listener)
     }
   }
 
   /**
    * Broadcast a message to all connected clients
-   * Skips clients marked as stale
+   * Skips clients marked as stale and applies the hidden delivery policy
+   * Objects in options.transfer are transferred to the last recipient and
+   * cloned for the others
    */
-  broadcast(message: unknown): void {
+  broadcast(message: unknown, options: SendOptions = {}): void {
+    const recipients: Array<[MessagePort, ClientState]> = []
     for (const [port, client] of this.clients) {
-      if (this.isConnected(client)) {
-        port.postMessage(message)
+      if (this.isConnected(client)) recipients.push([port, client])
+    }
+    this.fanOut(recipients, message, options.transfer)
+  }
+
+  /**
+   * Publish a message to connected clients subscribed to a topic
+   * Skips clients marked as stale and applies the hidden delivery policy
+   * Objects in options.transfer are transferred to the last recipient and
+   * cloned for the others
+   */
+  publish(topic: string, message: unknown, options: SendOptions = {}): void {
+    if (!this.topics.has(topic)) return
+
+    const recipients: Array<[MessagePort, ClientState]> = []
+    for (const [port, client] of this.clients) {
+      if (this.isConnected(client) && client.topics.has(topic)) {
+        recipients.push([port, client])
+      }
+    }
+    this.fanOut(recipients, message, options.transfer)
+  }
+
+  /**
+   * Send a message to several clients, dropping or holding it for hidden ones
+   * The message is encoded once. With a transfer list, every recipient but
+   * the last gets a structured clone and the last one gets the originals
+   */
+  private fanOut(
+    recipients: Array<[MessagePort, ClientState]>,
+    message: unknown,
+    transfer: Transferable[] = []
+  ): void {
+    const sendNow: MessagePort[] = []
+    for (const [port, client] of recipients) {
+      if (this.shouldSendNow(client, message)) {
+        sendNow.push(port)
+      } else {
+        // Held messages must not share objects that are about to be transferred
+        this.hold(
+          client,
+          transfer.length > 0 ? structuredClone(message) : message
+        )
+      }
+    }
+
+    if (sendNow.length === 0) return
+
+    if (this.middleware.isActive()) {
+      // Middleware may rewrite the message per recipient, so encode each one
+      const last = sendNow.length - 1
+      for (const [index, port] of sendNow.entries()) {
+        const isLast = index === last
+        this.post(
+          port,
+          isLast || transfer.length === 0 ? message : structuredClone(message),
+          isLast ? transfer : []
+        )
       }
+      return
     }
+
+    this.codecs.encode(
+      message,
+      transfer,
+      (encoded) => {
+        // Measured once, and before posting detaches transferred buffers
+        const size = estimateSize(encoded.data)
+        const last = sendNow.length - 1
+        for (const [index, port] of sendNow.entries()) {
+          port.postMessage(encoded.data, index === last ? encoded.transfer : [])
+          this.countOutbound(port, size)
+        }
+      },
+      this.handleEncodeError
+    )
+  }
+
+  /**
+   * Check if a message goes out now rather than being held or dropped
+   */
+  private shouldSendNow(client: ClientState, message: unknown): boolean {
+    const policy = client.hiddenDelivery ?? this.hiddenDelivery
+    return (
+      client.visible || policy.mode === 'deliver' || isInternalMessage(message)
+    )
+  }
+
+  /**
+   * Drop or hold a message for a hidden client according to its policy
+   */
+  private hold(client: ClientState, message: unknown): void {
+    const policy = client.hiddenDelivery ?? this.hiddenDelivery
+    if (policy.mode === 'deliver') return
+
+    if (policy.mode === 'drop') {
+      this.log('Dropped message for hidden client', 'debug')
+      return
+    }
+
+    const coalesceKey =
+      policy.mode === 'coalesce' ? policy.key(message) : undefined
+    // Unkeyed messages get a key of their own
+    const key = coalesceKey ?? Symbol('held message')
+    const { heldMessages } = client
+
+    // Re-inserting moves a coalesced message to the end of the queue
+    heldMessages.delete(key)
+    heldMessages.set(key, message)
+
+    const limit = policy.limit ?? Infinity
+    for (const oldest of heldMessages.keys()) {
+      if (heldMessages.size <= limit) break
+      heldMessages.delete(oldest)
+    }
+  }
+
+  /**
+   * Run a message through outbound middleware, then encode and post it to a
+   * single port
+   */
+  private post(
+    port: MessagePort,
+    message: unknown,
+    transfer: Transferable[] = []
+  ): void {
+    const client = this.clients.get(port)
+    if (!client) {
+      this.encodeAndPost(port, message, transfer)
+      return
+    }
+
+    this.middleware.run(
+      {
+        direction: 'outbound',
+        message,
+        internal: isInternalMessage(message),
+        port,
+        client,
+      },
+      (context) => this.encodeAndPost(port, context.message, transfer),
+      (error, context) => {
+        this.log('Outbound middleware failed', 'error', {
+          type: (context.message as { type?: unknown } | undefined)?.type,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    )
+  }
+
+  private encodeAndPost(
+    port: MessagePort,
+    message: unknown,
+    transfer: Transferable[]
+  ): void {
+    this.codecs.encode(
+      message,
+      transfer,
+      (encoded) => {
+        const size = estimateSize(encoded.data)
+        port.postMessage(encoded.data, encoded.transfer)
+        this.countOutbound(port, size)
+      },
+      this.handleEncodeError
+    )
+  }
+
+  private countOutbound(port: MessagePort, size: number): void {
+    const counters = this.clients.get(port)?.counters
+    if (!counters) return
+
+    counters.messagesOut++
+    counters.bytesOut += size
+  }
+
+  private handleEncodeError = (error: unknown): void => {
+    this.log('Failed to encode message', 'error', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  /**
+   * Send the messages held back while the client was hidden
+   */
+  private flushHeldMessages(port: MessagePort, client: ClientState): void {
+    if (client.heldMessages.size === 0) return
+
+    this.log('Flushing held messages', 'debug', {
+      count: client.heldMessages.size,
+    })
+    for (const message of client.heldMessages.values()) {
+      this.post(port, message)
+    }
+    client.heldMessages.clear()
+  }
+
+  /**
+   * Get the topics that have at least one subscriber
+   */
+  getTopics(): string[] {
+    return [...this.topics.keys()]
+  }
+
+  /**
+   * Get the number of clients subscribed to a topic (includes stale clients)
+   */
+  getSubscriberCount(topic: string): number {
+    return this.topics.get(topic) ?? 0
+  }
+
+  /**
+   * Check if the PortManager is idle: it has had no active clients for
+   * idleDelay, or has not had any for activeDelay yet
+   */
+  isIdle(): boolean {
+    return this.activity.isIdle()
   }
 
   /**
@@ -139,6 +946,28 @@ export class PortManager<TMessage = unknown> extends Logger {
     return count
   }
 
+  /**
+   * Get the number of connected clients whose tab has focus
+   */
+  getFocusedCount(): number {
+    let count = 0
+    for (const client of this.clients.values()) {
+      if (this.isConnected(client) && client.focused) count++
+    }
+    return count
+  }
+
+  /**
+   * Get the number of connected clients whose user is idle
+   */
+  getUserIdleCount(): number {
+    let count = 0
+    for (const client of this.clients.values()) {
+      if (this.isConnected(client) && client.userIdle) count++
+    }
+    return count
+  }
+
   /**
    * Get the total number of connected clients (excludes stale clients)
    */
@@ -161,6 +990,85 @@ export class PortManager<TMessage = unknown> extends Logger {
     return count
   }
 
+  /**
+   * Get connection health metrics for every client and in total
+   */
+  getMetrics(): PortManagerMetrics {
+    const now = Date.now()
+    const clients = [...this.clients.values()].map((client) =>
+      getClientMetrics(client, now)
+    )
+
+    return {
+      timestamp: now,
+      clients,
+      totals: getAggregateMetrics(clients),
+    }
+  }
+
+  /**
+   * Decode incoming data and dispatch it, dropping data the codec rejects
+   */
+  private receive(port: MessagePort, data: unknown): void {
+    const counters = this.clients.get(port)?.counters
+    if (counters) {
+      counters.messagesIn++
+      counters.bytesIn += estimateSize(data)
+    }
+
+    this.codecs.decode(
+      data,
+      (message) => {
+        // The client may have been removed while an async codec was decoding
+        const client = this.clients.get(port)
+        if (client) this.runInboundMiddleware(port, client, message)
+      },
+      (error) => {
+        this.log('Failed to decode message from client', 'warn', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    )
+  }
+
+  /**
+   * Run a decoded message through inbound middleware before handling it
+   * A request stopped by a throwing middleware is answered with the error
+   */
+  private runInboundMiddleware(
+    port: MessagePort,
+    client: ClientState,
+    message: unknown
+  ): void {
+    this.middleware.run(
+      {
+        direction: 'inbound',
+        message,
+        internal: isInternalMessage(message),
+        port,
+        client,
+      },
+      (context) => {
+        if (this.clients.has(port)) this.handleMessage(port, context.message)
+      },
+      (error, context) => {
+        const { type, id } = context.message as { type?: unknown; id?: number }
+        this.log('Inbound middleware failed', 'warn', {
+          type,
+          error: error instanceof Error ? error.message : String(error),
+        })
+
+        if (type === MESSAGE_TYPES.REQUEST && this.clients.has(port)) {
+          this.post(port, {
+            type: MESSAGE_TYPES.RESPONSE,
+            id: id as number,
+            error: serializeError(error),
+          } satisfies ResponseMessage)
+        }
+      }
+    )
+  }
+
   private handleMessage(port: MessagePort, data: unknown): void {
     const client = this.clients.get(port)
     if (!client) {
@@ -174,25 +1082,54 @@ export class PortManager<TMessage = unknown> extends Logger {
       this.log('Restoring stale client to connected status', 'info')
       client.status = 'connected'
       client.staleTimestamp = undefined
+      client.staleReason = undefined
       this.updateLastSeen(client)
       this.updateClientCount()
+      this.onClientRestore?.(port, this.toClientSnapshot(client))
     }
 
+    if (this.rateLimit && !this.admitMessage(port, client, data)) return
+
+    this.routeMessage(port, client, data)
+  }
+
+  private routeMessage(
+    port: MessagePort,
+    client: ClientState,
+    data: unknown
+  ): void {
     // Type guard for internal messages
-    const message = data as { type?: string; visible?: boolean }
+    const message = data as { type?: string; id?: number }
 
     switch (message.type) {
+      case MESSAGE_TYPES.CONNECT: {
+        this.identifyClient(port, client, data as ConnectMessage)
+
+        break
+      }
       case MESSAGE_TYPES.VISIBILITY_CHANGE: {
-        client.visible = message.visible ?? true
+        const { state, visible } = data as Partial<VisibilityChangeMessage>
+        recordVisibility(client.counters, client.visible)
+        // Clients that predate the lifecycle state only send visible
+        client.lifecycle = state ?? (visible === false ? 'hidden' : 'visible')
+        client.visible = client.lifecycle === 'visible'
         this.log('Client visibility changed', 'info', {
-          visible: message.visible,
+          visible: client.visible,
+          state: client.lifecycle,
         })
+        if (client.visible) this.flushHeldMessages(port, client)
         this.updateClientCount()
+        this.onClientVisibilityChange?.(port, this.toClientSnapshot(client))
+
+        break
+      }
+      case MESSAGE_TYPES.USER_ACTIVITY: {
+        this.updateUserActivity(port, client, data as UserActivityMessage)
 
         break
       }
       case MESSAGE_TYPES.DISCONNECT: {
-        this.removeClient(port)
+        this.removeClient(port, 'disconnect')
         this.updateClientCount()
 
         break
@@ -200,33 +1137,492 @@ export class PortManager<TMessage = unknown> extends Logger {
       case MESSAGE_TYPES.PONG: {
         this.updateLastSeen(client)
         this.log('Received pong from client', 'debug')
+        const { timestamp } = data as PongMessage
+        if (typeof timestamp !== 'number') {
+          recordPong(client.counters)
+          break
+        }
+
+        // The client times its clock offset from this round trip
+        const latency = recordPong(client.counters, timestamp)
+        if (latency !== undefined) {
+          this.post(port, {
+            type: MESSAGE_TYPES.LATENCY,
+            timestamp,
+            latency,
+          } satisfies LatencyMessage)
+        }
+
+        break
+      }
+      case MESSAGE_TYPES.LIVENESS_LOCK: {
+        this.watchLivenessLock(port, client, (data as LivenessLockMessage).name)
+
+        break
+      }
+      case MESSAGE_TYPES.REQUEST: {
+        this.handleRequest(port, client, data as RequestMessage)
+
+        break
+      }
+      case MESSAGE_TYPES.SUBSCRIBE: {
+        this.addSubscription(client, (data as SubscribeMessage).topic)
+
+        break
+      }
+      case MESSAGE_TYPES.UNSUBSCRIBE: {
+        this.removeSubscription(client, (data as UnsubscribeMessage).topic)
+
+        break
+      }
+      case MESSAGE_TYPES.CANCEL: {
+        client.pendingRequests.get(message.id as number)?.abort()
+        this.log('Request cancelled by client', 'debug', { id: message.id })
+
+        break
+      }
+      case MESSAGE_TYPES.MESSAGE_REJECTED: {
+        const { messageType, error } = data as MessageRejectedMessage
+        this.log('Client rejected a message', 'warn', { messageType, error })
+        this.onMessageRejected?.(port, { messageType, error })
 
         break
       }
       default: {
         // Non-internal message - pass through to application
-        this.onMessage?.(port, data as TMessage)
+        this.handleApplicationMessage(port, data)
       }
     }
   }
 
+  /**
+   * Record a client's focus and user idle state and report what changed
+   */
+  private updateUserActivity(
+    port: MessagePort,
+    client: ClientState,
+    { focused, idle }: UserActivityMessage
+  ): void {
+    const focusChanged = focused !== client.focused
+    const idleChanged = idle !== client.userIdle
+
+    client.focused = focused
+    client.userIdle = idle
+    if (focusChanged && focused) client.focusedAt = Date.now()
+    this.log('Client activity changed', 'debug', { focused, idle })
+
+    if (focusChanged) {
+      this.onClientFocusChange?.(port, this.toClientSnapshot(client))
+    }
+    if (idleChanged) {
+      this.onClientUserIdleChange?.(port, this.toClientSnapshot(client))
+    }
+  }
+
+  /**
+   * Apply rateLimit to application messages and requests
+   * Messages arriving while others are queued are queued behind them, so
+   * messages keep their order
+   * @returns false if the message was dropped or queued
+   */
+  private admitMessage(
+    port: MessagePort,
+    client: ClientState,
+    data: unknown
+  ): boolean {
+    const target = getRateLimitTarget(data)
+    if (!target) return true
+
+    const limits = this.rateLimit as RateLimitOptions
+    const state = (client.rateLimit ??= createRateLimitState())
+    const now = Date.now()
+
+    if (state.violations > 0 && isRecovered(state, limits, now)) {
+      state.violations = 0
+    }
+    if (state.queue.length === 0 && takeToken(state, limits, target, now)) {
+      return true
+    }
+
+    this.limitMessage(port, client, state, data, target)
+    return false
+  }
+
+  /**
+   * Drop or queue a message over the limit, or disconnect a flooding client
+   * The client is told the first time it goes over the limit. Dropped
+   * requests are rejected instead
+   */
+  private limitMessage(
+    port: MessagePort,
+    client: ClientState,
+    state: RateLimitState,
+    data: unknown,
+    target: RateLimitTarget
+  ): void {
+    const limits = this.rateLimit as RateLimitOptions
+    const {
+      overflow = 'drop',
+      queueLimit = 100,
+      disconnectAfter = 100,
+    } = limits
+
+    state.violations++
+    let action: RateLimitAction = 'dropped'
+    if (state.violations >= disconnectAfter) {
+      action = 'disconnected'
+    } else if (overflow === 'queue' && state.queue.length < queueLimit) {
+      action = 'queued'
+      state.queue.push(data)
+      this.scheduleDrain(port, client, state)
+    }
+
+    const event: RateLimitEvent = {
+      ...(client.id !== undefined && { clientId: client.id }),
+      ...target,
+      action,
+      violations: state.violations,
+    }
+    this.log('Client exceeded rate limit', 'warn', { ...event })
+    this.onRateLimited?.(port, event)
+
+    if (action === 'dropped' && target.method !== undefined) {
+      this.post(port, {
+        type: MESSAGE_TYPES.RESPONSE,
+        id: (data as RequestMessage).id,
+        error: serializeError(
+          new Error(`Rate limit exceeded for method "${target.method}"`)
+        ),
+      } satisfies ResponseMessage)
+    } else if (state.violations === 1 || action === 'disconnected') {
+      this.post(port, {
+        type: MESSAGE_TYPES.RATE_LIMITED,
+        ...target,
+        action,
+        retryAfter: getWaitTime(state, limits, target),
+      } satisfies RateLimitedMessage)
+    }
+
+    if (action === 'disconnected') {
+      this.log('Disconnecting flooding client', 'warn', {
+        clientId: client.id,
+        violations: state.violations,
+      })
+      this.removeClient(port, 'rate-limit')
+      this.updateClientCount()
+    }
+  }
+
+  /**
+   * Handle queued messages once the client has tokens for them again
+   */
+  private scheduleDrain(
+    port: MessagePort,
+    client: ClientState,
+    state: RateLimitState
+  ): void {
+    if (state.drainTimeoutId !== undefined) return
+
+    const limits = this.rateLimit as RateLimitOptions
+    const nextTarget = (): RateLimitTarget =>
+      getRateLimitTarget(state.queue[0]) ?? {}
+
+    state.drainTimeoutId = setTimeout(
+      () => {
+        state.drainTimeoutId = undefined
+
+        while (
+          state.queue.length > 0 &&
+          this.clients.get(port) === client &&
+          takeToken(state, limits, nextTarget())
+        ) {
+          this.routeMessage(port, client, state.queue.shift())
+        }
+
+        if (state.queue.length > 0 && this.clients.get(port) === client) {
+          this.scheduleDrain(port, client, state)
+        }
+      },
+      getWaitTime(state, limits, nextTarget())
+    )
+  }
+
+  /**
+   * Validate an application message against the contract (if any) and pass
+   * it to onMessage
+   */
+  private handleApplicationMessage(port: MessagePort, data: unknown): void {
+    if (!this.contract) {
+      this.onMessage?.(port, data as TMessage)
+      return
+    }
+
+    const result = validateMessage(this.contract.client, data)
+    if (result.valid) {
+      this.onMessage?.(port, result.message as TMessage)
+      return
+    }
+
+    const messageType = (data as { type?: unknown } | undefined)?.type
+    const rejection: MessageRejection = {
+      ...(typeof messageType === 'string' && { messageType }),
+      error: result.error,
+    }
+    this.log('Rejected invalid message from client', 'warn', { ...rejection })
+
+    if (this.reportInvalidMessages) {
+      this.post(port, {
+        type: MESSAGE_TYPES.MESSAGE_REJECTED,
+        ...rejection,
+      } satisfies MessageRejectedMessage)
+    }
+  }
+
+  private addSubscription(client: ClientState, topic: string): void {
+    if (client.topics.has(topic)) return
+
+    client.topics.add(topic)
+    const count = (this.topics.get(topic) ?? 0) + 1
+    this.topics.set(topic, count)
+    this.log('Client subscribed to topic', 'debug', {
+      topic,
+      subscribers: count,
+    })
+
+    if (count === 1) {
+      this.log('Topic opened', 'info', { topic })
+      this.onTopicOpen?.(topic)
+    }
+  }
+
+  private removeSubscription(client: ClientState, topic: string): void {
+    if (!client.topics.delete(topic)) return
+
+    const count = (this.topics.get(topic) ?? 1) - 1
+    this.log('Client unsubscribed from topic', 'debug', {
+      topic,
+      subscribers: count,
+    })
+
+    if (count === 0) {
+      this.topics.delete(topic)
+      this.log('Topic closed', 'info', { topic })
+      this.onTopicClose?.(topic)
+    } else {
+      this.topics.set(topic, count)
+    }
+  }
+
+  private handleRequest(
+    port: MessagePort,
+    client: ClientState,
+    message: RequestMessage
+  ): void {
+    if (this.shutdownNotice) {
+      this.post(port, {
+        type: MESSAGE_TYPES.RESPONSE,
+        id: message.id,
+        error: serializeError(new Error('SharedWorker is shutting down')),
+      } satisfies ResponseMessage)
+      return
+    }
+
+    if (message.stream) {
+      this.handleStreamRequest(port, client, message)
+      return
+    }
+
+    const { id, method, params } = message
+    const handler = this.handlers.get(method)
+
+    if (!handler) {
+      this.log('No handler registered for request', 'warn', { method })
+      this.post(port, {
+        type: MESSAGE_TYPES.RESPONSE,
+        id,
+        error: serializeError(
+          new Error(`No handler registered for method "${method}"`)
+        ),
+      } satisfies ResponseMessage)
+      return
+    }
+
+    const controller = new AbortController()
+    client.pendingRequests.set(id, controller)
+
+    new Promise((resolve) => {
+      resolve(handler(params, { port, client, signal: controller.signal }))
+    }).then(
+      (result) => {
+        this.respond(port, client, id, controller, { result })
+      },
+      (error: unknown) => {
+        this.log('Request handler failed', 'error', {
+          method,
+          error: serializeError(error).message,
+        })
+        this.respond(port, client, id, controller, {
+          error: serializeError(error),
+        })
+      }
+    )
+  }
+
+  private handleStreamRequest(
+    port: MessagePort,
+    client: ClientState,
+    message: RequestMessage
+  ): void {
+    const { id, method, params } = message
+    const handler = this.streamHandlers.get(method)
+
+    if (!handler) {
+      this.log('No stream handler registered', 'warn', { method })
+      this.post(port, {
+        type: MESSAGE_TYPES.RESPONSE,
+        id,
+        error: serializeError(
+          new Error(`No stream handler registered for method "${method}"`)
+        ),
+      } satisfies ResponseMessage)
+      return
+    }
+
+    const controller = new AbortController()
+    client.pendingRequests.set(id, controller)
+
+    new Promise<void>((resolve) => {
+      const { signal } = controller
+      resolve(
+        this.pipeStream(
+          port,
+          id,
+          handler(params, { port, client, signal }),
+          signal
+        )
+      )
+    }).then(
+      () => {
+        // The stream ends with an empty response
+        this.respond(port, client, id, controller, { result: undefined })
+      },
+      (error: unknown) => {
+        this.log('Stream handler failed', 'error', {
+          method,
+          error: serializeError(error).message,
+        })
+        this.respond(port, client, id, controller, {
+          error: serializeError(error),
+        })
+      }
+    )
+  }
+
+  /**
+   * Send each chunk of a stream handler to the calling port until it ends or
+   * is aborted. Stopping early runs the handler's finally blocks
+   */
+  private async pipeStream(
+    port: MessagePort,
+    id: number,
+    chunks: AsyncIterable<unknown> | Iterable<unknown>,
+    signal: AbortSignal
+  ): Promise<void> {
+    for await (const chunk of chunks) {
+      if (signal.aborted) return
+
+      this.post(port, {
+        type: MESSAGE_TYPES.STREAM_CHUNK,
+        id,
+        chunk,
+      } satisfies StreamChunkMessage)
+    }
+  }
+
+  /**
+   * Send a handler result back to the calling port
+   * Dropped if the request was cancelled or already rejected
+   */
+  private respond(
+    port: MessagePort,
+    client: ClientState,
+    id: number,
+    controller: AbortController,
+    payload: { result: unknown } | { error: SerializedError }
+  ): void {
+    if (client.pendingRequests.get(id) !== controller) return
+
+    client.pendingRequests.delete(id)
+    if (!controller.signal.aborted) {
+      this.post(port, {
+        type: MESSAGE_TYPES.RESPONSE,
+        id,
+        ...payload,
+      } as ResponseMessage)
+    }
+
+    this.checkDrained()
+  }
+
+  /**
+   * Abort all in-flight requests for a client and reject them on the client side
+   */
+  private abortRequests(
+    port: MessagePort,
+    client: ClientState,
+    reason: string
+  ): void {
+    for (const [id, controller] of client.pendingRequests) {
+      controller.abort()
+      this.post(port, {
+        type: MESSAGE_TYPES.RESPONSE,
+        id,
+        error: serializeError(new Error(reason)),
+      } satisfies ResponseMessage)
+    }
+
+    client.pendingRequests.clear()
+    this.checkDrained()
+  }
+
   private checkClients(): void {
     const now = Date.now()
     let staleCount = 0
     let removedCount = 0
-    const staleThreshold = this.pingInterval + this.pingTimeout
-
     for (const [port, client] of this.clients) {
-      const isStale = now - client.lastSeen > staleThreshold
+      const { timeout, reason } = getPingTimeout(client, this.heartbeat)
+      const silentFor = now - client.lastSeen
+      const isStale = silentFor > this.pingInterval + timeout
 
       if (isStale && this.isConnected(client)) {
         client.status = 'stale'
         client.staleTimestamp = now
+        client.staleReason = reason
+        client.counters.staleTransitions++
+        this.abortRequests(port, client, 'Client marked as stale')
         staleCount++
-        this.log('Marking client as stale', 'info')
+        this.log('Marking client as stale', 'info', {
+          reason,
+          silentFor,
+          timeout,
+        })
+        this.onClientStale?.(
+          port,
+          {
+            ...(client.id !== undefined && { clientId: client.id }),
+            reason,
+            silentFor,
+            timeout,
+          },
+          this.toClientSnapshot(client)
+        )
       } else if (!isStale && this.isConnected(client)) {
         this.log('Sending ping to client', 'debug')
-        port.postMessage({ type: MESSAGE_TYPES.PING })
+        client.counters.pingSentAt = now
+        this.post(port, {
+          type: MESSAGE_TYPES.PING,
+          timestamp: now,
+        } satisfies PingMessage)
       }
 
       // Auto-remove if timeout exceeded
@@ -237,7 +1633,7 @@ export class PortManager<TMessage = unknown> extends Logger {
       ) {
         const timeStale = now - client.staleTimestamp
         if (timeStale > this.staleClientTimeout) {
-          this.removeClient(port)
+          this.removeClient(port, 'timeout')
           removedCount++
           this.log('Auto-removed stale client', 'info', { timeStale })
         }
@@ -269,6 +1665,8 @@ export class PortManager<TMessage = unknown> extends Logger {
     })
 
     this.onActiveCountChange?.(active, total)
+    this.activity.update(active)
+    for (const listener of this.countListeners) listener(active, total)
   }
 
   protected getLogPrefix(): string {
@@ -286,7 +1684,7 @@ export class PortManager<TMessage = unknown> extends Logger {
     for (const port of ports) {
       const client = this.clients.get(port)
       if (client?.status === 'stale') {
-        this.removeClient(port)
+        this.removeClient(port, 'manual')
         removedCount++
       }
     }
@@ -304,10 +1702,12 @@ export class PortManager<TMessage = unknown> extends Logger {
    */
   destroy(): void {
     clearInterval(this.pingIntervalId)
+    clearInterval(this.metricsIntervalId)
+    this.activity.destroy()
     // Remove all clients (aborts controllers and clears map)
     const ports = [...this.clients.keys()]
     for (const port of ports) {
-      this.removeClient(port)
+      this.removeClient(port, 'destroy')
     }
     this.log('PortManager destroyed', 'info')
   }
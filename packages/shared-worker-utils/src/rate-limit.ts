@@ -0,0 +1,153 @@
+import { isInternalMessage, MESSAGE_TYPES } from './constants'
+import type {
+  RateLimit,
+  RateLimitOptions,
+  RateLimitState,
+  TokenBucket,
+} from './types'
+
+/**
+ * What a message is limited by: its application message type or request method
+ */
+export interface RateLimitTarget {
+  messageType?: string
+  method?: string
+}
+
+export function createRateLimitState(): RateLimitState {
+  return { types: new Map(), queue: [], violations: 0 }
+}
+
+/**
+ * Find what a message is limited by
+ * @returns undefined for internal messages that are never limited
+ */
+export function getRateLimitTarget(
+  message: unknown
+): RateLimitTarget | undefined {
+  const { type, method } = (message ?? {}) as {
+    type?: unknown
+    method?: unknown
+  }
+
+  if (type === MESSAGE_TYPES.REQUEST) return { method: String(method) }
+  if (isInternalMessage(message)) return undefined
+  return typeof type === 'string' ? { messageType: type } : {}
+}
+
+function getTypeLimit(
+  options: RateLimitOptions,
+  target: RateLimitTarget
+): [string, RateLimit] | undefined {
+  const key = target.method ?? target.messageType
+  if (key === undefined || !options.perType) return undefined
+  if (!Object.prototype.hasOwnProperty.call(options.perType, key)) {
+    return undefined
+  }
+  return [key, options.perType[key]]
+}
+
+function createBucket(limit: RateLimit, now: number): TokenBucket {
+  return { tokens: limit.burst ?? limit.rate, updatedAt: now }
+}
+
+function refill(bucket: TokenBucket, limit: RateLimit, now: number): void {
+  const burst = limit.burst ?? limit.rate
+  const elapsed = (now - bucket.updatedAt) / 1000
+  bucket.tokens = Math.min(burst, bucket.tokens + elapsed * limit.rate)
+  bucket.updatedAt = now
+}
+
+/**
+ * Get the refilled buckets a message takes a token from, creating them full
+ */
+function getBuckets(
+  state: RateLimitState,
+  options: RateLimitOptions,
+  target: RateLimitTarget,
+  now: number
+): Array<[TokenBucket, RateLimit]> {
+  const buckets: Array<[TokenBucket, RateLimit]> = []
+
+  if (options.perClient) {
+    state.client ??= createBucket(options.perClient, now)
+    buckets.push([state.client, options.perClient])
+  }
+
+  const typeLimit = getTypeLimit(options, target)
+  if (typeLimit) {
+    const [key, limit] = typeLimit
+    const bucket = state.types.get(key) ?? createBucket(limit, now)
+    state.types.set(key, bucket)
+    buckets.push([bucket, limit])
+  }
+
+  for (const [bucket, limit] of buckets) refill(bucket, limit, now)
+  return buckets
+}
+
+/**
+ * Get the milliseconds until a message is within its limits
+ */
+export function getWaitTime(
+  state: RateLimitState,
+  options: RateLimitOptions,
+  target: RateLimitTarget,
+  now = Date.now()
+): number {
+  let wait = 0
+  for (const [bucket, limit] of getBuckets(state, options, target, now)) {
+    if (bucket.tokens < 1) {
+      wait = Math.max(
+        wait,
+        Math.ceil(((1 - bucket.tokens) / limit.rate) * 1000)
+      )
+    }
+  }
+  return wait
+}
+
+/**
+ * Take a token for a message from every bucket it is limited by
+ * Takes nothing unless all of them have a token
+ * @returns false if the message is over the limit
+ */
+export function takeToken(
+  state: RateLimitState,
+  options: RateLimitOptions,
+  target: RateLimitTarget,
+  now = Date.now()
+): boolean {
+  if (getWaitTime(state, options, target, now) > 0) return false
+
+  for (const [bucket] of getBuckets(state, options, target, now)) {
+    bucket.tokens -= 1
+  }
+  return true
+}
+
+/**
+ * Check if every bucket of a client has refilled completely and nothing is
+ * queued, meaning the client stopped flooding
+ */
+export function isRecovered(
+  state: RateLimitState,
+  options: RateLimitOptions,
+  now = Date.now()
+): boolean {
+  if (state.queue.length > 0) return false
+
+  const buckets: Array<[TokenBucket, RateLimit]> = []
+  if (state.client && options.perClient) {
+    buckets.push([state.client, options.perClient])
+  }
+  for (const [key, bucket] of state.types) {
+    const limit = options.perType?.[key]
+    if (limit) buckets.push([bucket, limit])
+  }
+
+  return buckets.every(([bucket, limit]) => {
+    refill(bucket, limit, now)
+    return bucket.tokens >= (limit.burst ?? limit.rate)
+  })
+}
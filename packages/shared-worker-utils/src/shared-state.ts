@@ -0,0 +1,343 @@
+import { MESSAGE_TYPES, STATE_PREFIX } from './constants'
+import { applyPatch, diff } from './json-patch'
+import { Logger } from './logger'
+import type { PortManager } from './port-manager'
+import type { SharedWorkerClient } from './shared-worker-client'
+import type {
+  ClientState,
+  LogEntry,
+  MutationContext,
+  SharedStateOptions,
+  StateMutation,
+  StatePatchMessage,
+  StateSnapshot,
+} from './types'
+
+/**
+ * Topic a SharedStateMirror subscribes to for patches
+ */
+export function getStateTopic(name: string): string {
+  return `${STATE_PREFIX}${name}`
+}
+
+function getSyncMethod(name: string): string {
+  return `${STATE_PREFIX}${name}/sync`
+}
+
+function getMutateMethod(name: string): string {
+  return `${STATE_PREFIX}${name}/mutate`
+}
+
+/**
+ * A value owned by the SharedWorker and mirrored in every client
+ * Clients receive a snapshot when they start mirroring and patches on change
+ * @template T - The type of the state (must be structured-clone friendly)
+ */
+export class SharedState<T> extends Logger {
+  private name: string
+  private state: T
+  private version = 0
+  private portManager: Pick<PortManager, 'handle' | 'publish'>
+  private validateMutation?: (
+    nextState: T,
+    context: MutationContext<T>
+  ) => boolean
+  private listeners: Set<(state: T) => void> = new Set()
+  private unregisterHandlers: Array<() => void>
+
+  constructor(
+    portManager: Pick<PortManager, 'handle' | 'publish'>,
+    options: SharedStateOptions<T>
+  ) {
+    super()
+    this.portManager = portManager
+    this.name = options.name
+    this.state = options.initialState
+    this.validateMutation = options.validateMutation
+    this.onLog = options.onLog
+
+    this.unregisterHandlers = [
+      portManager.handle(
+        getSyncMethod(this.name),
+        (): StateSnapshot<T> => ({ version: this.version, state: this.state })
+      ),
+      portManager.handle<StateMutation>(
+        getMutateMethod(this.name),
+        (mutation, { client }) => this.mutate(mutation, client)
+      ),
+    ]
+
+    this.log('SharedState initialized', 'info', { name: this.name })
+  }
+
+  /**
+   * Get the current state
+   */
+  get(): T {
+    return this.state
+  }
+
+  /**
+   * Replace the state and send the difference to all mirrors
+   * Treat the state as immutable - a mutated object is not detected as a change
+   */
+  set(nextState: T): void {
+    const patch = diff(this.state, nextState)
+    if (patch.length === 0) return
+
+    this.state = nextState
+    this.version++
+    this.portManager.publish(getStateTopic(this.name), {
+      type: MESSAGE_TYPES.STATE_PATCH,
+      name: this.name,
+      version: this.version,
+      patch,
+    } satisfies StatePatchMessage)
+    this.log('State changed', 'debug', {
+      name: this.name,
+      version: this.version,
+      operations: patch.length,
+    })
+
+    for (const listener of this.listeners) listener(nextState)
+  }
+
+  /**
+   * Derive the next state from the current one
+   */
+  update(updater: (state: T) => T): void {
+    this.set(updater(this.state))
+  }
+
+  /**
+   * Listen for changes, including mutations sent by clients
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (state: T) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Stop serving the state to clients
+   */
+  destroy(): void {
+    for (const unregister of this.unregisterHandlers) unregister()
+    this.listeners.clear()
+    this.log('SharedState destroyed', 'info', { name: this.name })
+  }
+
+  private mutate(mutation: StateMutation, client: ClientState): void {
+    if (!this.validateMutation) {
+      throw new Error(`Shared state "${this.name}" does not accept mutations`)
+    }
+    const { version, patch } = (mutation ?? {}) as Partial<StateMutation>
+    if (!Array.isArray(patch)) {
+      throw new TypeError('Mutation patch must be an array')
+    }
+    // The patch was computed from an older state, such as before a
+    // concurrent mutation from another tab
+    if (version !== this.version) {
+      this.log('Rejected mutation of an outdated state', 'warn', {
+        name: this.name,
+        version: this.version,
+        received: version,
+      })
+      throw new Error(
+        `Shared state "${this.name}" changed since version ${String(version)}`
+      )
+    }
+
+    const nextState = applyPatch(this.state, patch)
+    const accepted = this.validateMutation(nextState, {
+      previousState: this.state,
+      patch,
+      client,
+    })
+
+    if (!accepted) {
+      this.log('Rejected mutation from client', 'warn', { name: this.name })
+      throw new Error(`Mutation of shared state "${this.name}" was rejected`)
+    }
+
+    this.set(nextState)
+  }
+
+  protected getLogPrefix(): string {
+    return '[SharedState]'
+  }
+}
+
+/**
+ * Local copy of a SharedState, kept up to date by SharedWorkerClient
+ * Create one with SharedWorkerClient.getSharedState()
+ * @template T - The type of the state
+ */
+export class SharedStateMirror<T> extends Logger {
+  private name: string
+  private client: Pick<SharedWorkerClient, 'request'>
+  private state?: T
+  private synced = false
+  private version = -1
+  private syncing = false
+  private syncId = 0
+  private listeners: Set<(state: T) => void> = new Set()
+
+  constructor(
+    name: string,
+    client: Pick<SharedWorkerClient, 'request'>,
+    onLog?: (logEntry: LogEntry) => void
+  ) {
+    super()
+    this.name = name
+    this.client = client
+    this.onLog = onLog
+  }
+
+  /**
+   * Get the last known state, or undefined before the first snapshot arrives
+   */
+  get(): T | undefined {
+    return this.state
+  }
+
+  /**
+   * Check if a snapshot has been received
+   */
+  isSynced(): boolean {
+    return this.synced
+  }
+
+  /**
+   * Listen for changes to the state, including the first snapshot
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (state: T) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Ask the SharedWorker to replace the state
+   * Only the difference is sent. The SharedWorker validates it and, once
+   * accepted, the change reaches this mirror before the Promise resolves
+   * @throws RemoteError if the SharedWorker rejects the mutation, or the
+   * state changed since this mirror last received it
+   */
+  async set(nextState: T): Promise<void> {
+    if (!this.synced) {
+      throw new Error(`Shared state "${this.name}" has not been synced yet`)
+    }
+
+    const patch = diff(this.state, nextState)
+    if (patch.length === 0) return
+
+    await this.client.request(getMutateMethod(this.name), {
+      version: this.version,
+      patch,
+    } satisfies StateMutation)
+  }
+
+  /**
+   * Ask the SharedWorker to replace the state with one derived from the
+   * last known state
+   */
+  async update(updater: (state: T) => T): Promise<void> {
+    if (!this.synced) {
+      throw new Error(`Shared state "${this.name}" has not been synced yet`)
+    }
+
+    await this.set(updater(this.state as T))
+  }
+
+  /**
+   * Request a fresh snapshot, accepting it whatever its version
+   * Called by SharedWorkerClient after (re)connecting
+   */
+  sync(): void {
+    this.version = -1
+    this.requestSnapshot()
+  }
+
+  /**
+   * Apply a patch broadcast by the SharedState
+   * Called by SharedWorkerClient. Resyncs if a patch was missed
+   */
+  handlePatch(message: StatePatchMessage): void {
+    if (this.synced && message.version <= this.version) return
+
+    if (this.version === -1 || message.version !== this.version + 1) {
+      this.log('Missed a shared state patch, resyncing', 'debug', {
+        name: this.name,
+        version: this.version,
+        received: message.version,
+      })
+      if (!this.syncing) this.requestSnapshot()
+      return
+    }
+
+    let nextState: T
+    try {
+      nextState = applyPatch(this.state as T, message.patch)
+    } catch (error) {
+      this.log('Failed to apply shared state patch', 'warn', {
+        name: this.name,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      this.requestSnapshot()
+      return
+    }
+
+    this.version = message.version
+    this.setState(nextState)
+  }
+
+  private requestSnapshot(): void {
+    const id = ++this.syncId
+    this.syncing = true
+
+    this.client.request<StateSnapshot<T>>(getSyncMethod(this.name)).then(
+      (snapshot) => {
+        if (id !== this.syncId) return
+        this.syncing = false
+        this.applySnapshot(snapshot)
+      },
+      (error: unknown) => {
+        if (id !== this.syncId) return
+        this.syncing = false
+        this.log('Failed to sync shared state', 'warn', {
+          name: this.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    )
+  }
+
+  private applySnapshot(snapshot: StateSnapshot<T>): void {
+    // Patches applied while the snapshot was in flight are already newer
+    if (this.version > snapshot.version) return
+
+    const changed = !this.synced || diff(this.state, snapshot.state).length > 0
+    this.version = snapshot.version
+    this.synced = true
+    this.log('Shared state synced', 'debug', {
+      name: this.name,
+      version: snapshot.version,
+    })
+
+    if (changed) this.setState(snapshot.state)
+  }
+
+  private setState(state: T): void {
+    this.state = state
+    for (const listener of this.listeners) listener(state)
+  }
+
+  protected getLogPrefix(): string {
+    return '[SharedStateMirror]'
+  }
+}
@@ -1,33 +1,200 @@
-import { MESSAGE_TYPES } from './constants'
+import { getBackoffDelay } from './backoff'
+import { CodecPipeline } from './codec'
+import {
+  isInternalMessage,
+  LIVENESS_LOCK_PREFIX,
+  MESSAGE_TYPES,
+  PROTOCOL_VERSION,
+} from './constants'
+import { validateMessage } from './contract'
+import { RemoteError } from './errors'
+import { createId } from './id'
 import { Logger } from './logger'
-import type { SharedWorkerClientOptions } from './types'
+import { MiddlewareChain } from './middleware'
+import { getStateTopic, SharedStateMirror } from './shared-state'
+import type {
+  ClientMiddlewareContext,
+  ConnectAckMessage,
+  ConnectionState,
+  LatencyInfo,
+  LatencyMessage,
+  LifecycleState,
+  MessageContract,
+  MessageRejectedMessage,
+  MessageRejection,
+  Middleware,
+  OutboundQueueOptions,
+  PingMessage,
+  ReconnectOptions,
+  RequestOptions,
+  ProtocolVersion,
+  RateLimitedMessage,
+  RateLimitNotice,
+  ResponseMessage,
+  SendOptions,
+  SharedWorkerClientOptions,
+  SharedWorkerLike,
+  ShutdownMessage,
+  ShutdownNotice,
+  StatePatchMessage,
+  StreamChunkMessage,
+  StreamOptions,
+  VersionMismatch,
+} from './types'
+
+interface QueuedMessage {
+  message: unknown
+  options: SendOptions
+}
+
+/**
+ * Limits of the queueUntilReady queue, also applied to messages held while
+ * reconnecting without it
+ */
+const DEFAULT_OUTBOUND_QUEUE: Required<OutboundQueueOptions> = {
+  limit: 100,
+  overflow: 'drop-oldest',
+}
+
+const DEFAULT_HEARTBEAT_TIMEOUT = 30_000
+
+const USER_INPUT_EVENTS = [
+  'keydown',
+  'pointerdown',
+  'pointermove',
+  'scroll',
+  'touchstart',
+  'wheel',
+]
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: unknown) => void
+  push?: (chunk: unknown) => void
+}
 
 /**
  * Client-side SharedWorker connection manager
- * Handles visibility tracking, ping/pong responses, and cleanup
+ * Handles visibility tracking, ping/pong responses, reconnection, and cleanup
  * @template TMessage - The type of application messages (non-internal messages)
  */
 export class SharedWorkerClient<TMessage = unknown> extends Logger {
-  private port: MessagePort
+  private port!: MessagePort
   private onMessage: (message: TMessage) => void
+  private contract?: MessageContract<unknown, TMessage>
+  private codecs: CodecPipeline
+  private middleware: MiddlewareChain<ClientMiddlewareContext>
+  private reportInvalidMessages: boolean
+  private onMessageRejected?: (rejection: MessageRejection) => void
+  private onRateLimited?: (notice: RateLimitNotice) => void
+  private onConnectionStateChange?: (state: ConnectionState) => void
   private isTabVisible: boolean
+  private isFrozen = false
+  private isTabFocused: boolean
+  private userIdle = false
+  private userIdleTimeout?: number
+  private userIdleTimeoutId?: ReturnType<typeof setTimeout>
+  private lastInputAt = Date.now()
   private abortController = new AbortController()
+  private connectionController?: AbortController
+  private connectionState: ConnectionState = 'connected'
+  private createWorker?: () => SharedWorkerLike
+  private reconnectOptions?: Required<ReconnectOptions>
+  private reconnectAttempts = 0
+  private reconnectTimeoutId?: ReturnType<typeof setTimeout>
+  private heartbeatTimeoutId?: ReturnType<typeof setTimeout>
+  private clientId: string
+  private metadata: Record<string, unknown>
+  private protocolVersion?: ProtocolVersion
+  private onVersionMismatch?: (mismatch: VersionMismatch) => void
+  private onShutdown?: (notice: ShutdownNotice) => void
+  private onLatency?: (info: LatencyInfo) => void
+  private latency?: LatencyInfo
+  private lastPing?: { timestamp: number; receivedAt: number }
+  private livenessLock?: string
+  private workerShuttingDown = false
+  private shutdownTimeoutId?: ReturnType<typeof setTimeout>
+  private requestTimeout?: number
+  private pendingRequests: Map<number, PendingRequest> = new Map()
+  private nextRequestId = 0
+  private subscriptions: Set<string> = new Set()
+  private sharedStates: Map<string, SharedStateMirror<unknown>> = new Map()
+  private outboundQueue?: Required<OutboundQueueOptions>
+  private queuedMessages: QueuedMessage[] = []
+  private workerReady = false
+  /**
+   * Whether the port was closed and no new one is connected yet
+   */
+  private portClosed = false
+  private readyPromise!: Promise<void>
+  private resolveReady!: () => void
 
+  /**
+   * @param worker - A SharedWorker, or a function creating one. Passing a
+   * function lets the client rebuild the worker when the connection is lost.
+   * Anything shaped like a SharedWorker works, such as LeaderElection.connect()
+   */
   constructor(
-    worker: SharedWorker,
+    worker: SharedWorkerLike | (() => SharedWorkerLike),
     options: SharedWorkerClientOptions<TMessage>
   ) {
     super()
-    this.port = worker.port
     this.onMessage = options.onMessage
+    this.contract = options.contract
+    this.codecs = new CodecPipeline(options.codec)
+    this.middleware = new MiddlewareChain(options.middleware)
+    this.reportInvalidMessages = options.reportInvalidMessages ?? false
+    this.onMessageRejected = options.onMessageRejected
+    this.onRateLimited = options.onRateLimited
+    this.onConnectionStateChange = options.onConnectionStateChange
     this.onLog = options.onLog
+    this.clientId = options.clientId ?? createId()
+    this.metadata = options.metadata ?? {}
+    this.protocolVersion = options.protocolVersion
+    this.onVersionMismatch = options.onVersionMismatch
+    this.onShutdown = options.onShutdown
+    this.onLatency = options.onLatency
+    this.requestTimeout = options.requestTimeout
     this.isTabVisible = this.getDocumentVisibility()
+    this.isTabFocused = document.hasFocus()
+
+    if (options.queueUntilReady) {
+      const queue =
+        options.queueUntilReady === true ? {} : options.queueUntilReady
+      this.outboundQueue = {
+        limit: queue.limit ?? DEFAULT_OUTBOUND_QUEUE.limit,
+        overflow: queue.overflow ?? DEFAULT_OUTBOUND_QUEUE.overflow,
+      }
+    }
+
+    if (typeof worker === 'function') {
+      this.createWorker = worker
+      if (options.reconnect !== false) {
+        const reconnect = options.reconnect === true ? {} : options.reconnect
+        this.reconnectOptions = {
+          heartbeatTimeout:
+            reconnect?.heartbeatTimeout ?? DEFAULT_HEARTBEAT_TIMEOUT,
+          initialDelay: reconnect?.initialDelay ?? 1000,
+          maxDelay: reconnect?.maxDelay ?? 30_000,
+          backoffMultiplier: reconnect?.backoffMultiplier ?? 2,
+          maxAttempts: reconnect?.maxAttempts ?? Infinity,
+        }
+      }
+    }
 
-    this.setupMessageHandler()
     this.setupVisibilityHandler()
-    this.setupUnloadHandler()
+    this.setupLifecycleHandlers()
+    this.setupFocusHandlers()
+    if (options.userIdle) {
+      const userIdle = options.userIdle === true ? {} : options.userIdle
+      this.setupUserIdleTracking(
+        userIdle.timeout ?? 60_000,
+        userIdle.events ?? USER_INPUT_EVENTS
+      )
+    }
 
-    this.port.start()
+    this.connect(typeof worker === 'function' ? worker() : worker)
+    if (options.livenessLock) this.acquireLivenessLock()
 
     this.log('Connected to SharedWorker', 'info')
     this.log('Tab visibility initialized', 'info', {
@@ -51,9 +218,376 @@ export class SharedWorkerClient<TMessage = unknown> extends Logger {
 
   /**
    * Send a message to the SharedWorker
+   * Objects in options.transfer are transferred rather than cloned
    */
-  send(message: unknown): void {
-    this.port.postMessage(message)
+  send(message: unknown, options: SendOptions = {}): void {
+    const holdMessages =
+      this.portClosed || (this.outboundQueue !== undefined && !this.workerReady)
+    // A draining SharedWorker rejects new requests, so they wait for the next
+    const holdRequests =
+      holdMessages ||
+      (this.workerShuttingDown && this.connectionState === 'reconnecting')
+
+    if (holdRequests) {
+      const { type, id } = (message ?? {}) as { type?: unknown; id?: number }
+
+      if (
+        type === MESSAGE_TYPES.REQUEST ||
+        (holdMessages && !isInternalMessage(message))
+      ) {
+        if (this.portClosed && this.connectionState === 'disconnected') {
+          this.drop(message)
+        } else {
+          this.enqueue(message, options)
+        }
+        return
+      }
+      // A cancelled request that was never sent needs no cancel message
+      if (type === MESSAGE_TYPES.CANCEL && this.dequeueRequest(id)) return
+      // Other internal messages are replayed after reconnecting
+      if (this.portClosed) return
+    }
+
+    this.post(message, options)
+  }
+
+  /**
+   * Drop a message sent with no connection left to send it over
+   */
+  private drop(message: unknown): void {
+    const { type, id } = message as { type?: unknown; id?: number }
+    this.log('Not connected to SharedWorker, message dropped', 'warn', {
+      type,
+    })
+    if (type === MESSAGE_TYPES.REQUEST) {
+      this.pendingRequests
+        .get(id as number)
+        ?.reject(new Error('Not connected to SharedWorker'))
+    }
+  }
+
+  /**
+   * Run a message through outbound middleware, then encode and post it
+   */
+  private post(message: unknown, options: SendOptions): void {
+    // Bound now so async middleware or codecs cannot post to a port replaced
+    // by reconnect()
+    const { port } = this
+    this.middleware.run(
+      { direction: 'outbound', message, internal: isInternalMessage(message) },
+      (context) => {
+        this.codecs.encode(
+          context.message,
+          options.transfer ?? [],
+          (encoded) => port.postMessage(encoded.data, encoded.transfer),
+          (error) => {
+            this.log('Failed to encode message', 'error', {
+              error: error instanceof Error ? error.message : String(error),
+            })
+          }
+        )
+      },
+      this.handleMiddlewareError
+    )
+  }
+
+  /**
+   * Hold a message until the SharedWorker is ready, applying the queue limit
+   */
+  private enqueue(message: unknown, options: SendOptions): void {
+    const { limit, overflow } = this.outboundQueue ?? DEFAULT_OUTBOUND_QUEUE
+
+    if (this.queuedMessages.length >= limit) {
+      this.log('Outbound queue is full', 'warn', { limit, overflow })
+
+      if (overflow === 'drop-oldest') {
+        const [oldest] = this.queuedMessages.splice(0, 1)
+        this.rejectQueuedRequest(oldest.message)
+      } else if (
+        overflow === 'drop-newest' ||
+        this.rejectQueuedRequest(message)
+      ) {
+        return
+      } else {
+        throw new Error(`Outbound queue is full (${limit} messages)`)
+      }
+    }
+
+    this.queuedMessages.push({ message, options })
+  }
+
+  /**
+   * Reject the request a dropped message would have made
+   * @returns false if the message is not a request
+   */
+  private rejectQueuedRequest(message: unknown): boolean {
+    const { type, id } = message as { type?: unknown; id?: number }
+    if (type !== MESSAGE_TYPES.REQUEST) return false
+
+    this.pendingRequests
+      .get(id as number)
+      ?.reject(new Error('Outbound queue is full'))
+    return true
+  }
+
+  /**
+   * Remove a request that is still queued
+   * @returns false if the request is not queued
+   */
+  private dequeueRequest(id: number | undefined): boolean {
+    const index = this.queuedMessages.findIndex(({ message }) => {
+      const queued = message as { type?: unknown; id?: number }
+      return queued.type === MESSAGE_TYPES.REQUEST && queued.id === id
+    })
+    if (index === -1) return false
+
+    this.queuedMessages.splice(index, 1)
+    return true
+  }
+
+  /**
+   * Wait until the SharedWorker is ready for this client's messages
+   * After a reconnect, this waits for the new connection
+   */
+  ready(): Promise<void> {
+    return this.readyPromise
+  }
+
+  /**
+   * Check if the SharedWorker is ready for this client's messages
+   */
+  isReady(): boolean {
+    return this.workerReady
+  }
+
+  /**
+   * Add a middleware that runs after those already added
+   * Inbound middleware sees every decoded message from the SharedWorker
+   * before it is handled, outbound middleware every message to the
+   * SharedWorker before it is encoded
+   * @returns Function that removes the middleware
+   */
+  use(middleware: Middleware<ClientMiddlewareContext>): () => void {
+    return this.middleware.use(middleware)
+  }
+
+  /**
+   * Log a failed middleware. A request stopped by outbound middleware is
+   * rejected with the error
+   */
+  private handleMiddlewareError = (
+    error: unknown,
+    context: ClientMiddlewareContext
+  ): void => {
+    const { type, id } = context.message as { type?: unknown; id?: number }
+    this.log(
+      `${context.direction === 'inbound' ? 'Inbound' : 'Outbound'} middleware failed`,
+      'warn',
+      {
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    )
+
+    if (context.direction === 'outbound' && type === MESSAGE_TYPES.REQUEST) {
+      this.pendingRequests.get(id as number)?.reject(error)
+    }
+  }
+
+  /**
+   * Call a handler registered with PortManager.handle() in the SharedWorker
+   * Resolves with the handler's result or rejects with a RemoteError if it throws
+   */
+  request<TResult = unknown>(
+    method: string,
+    parameters?: unknown,
+    options: RequestOptions = {}
+  ): Promise<TResult> {
+    const { timeout = this.requestTimeout, signal } = options
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
+
+    const id = ++this.nextRequestId
+
+    return new Promise<TResult>((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+      const onAbort = (): void => {
+        this.sendInternal(MESSAGE_TYPES.CANCEL, { id })
+        settle()
+        reject(signal?.reason)
+      }
+
+      const settle = (): void => {
+        clearTimeout(timeoutId)
+        signal?.removeEventListener('abort', onAbort)
+        this.pendingRequests.delete(id)
+      }
+
+      this.pendingRequests.set(id, {
+        resolve: (result) => {
+          settle()
+          resolve(result as TResult)
+        },
+        reject: (error) => {
+          settle()
+          reject(error)
+        },
+      })
+
+      if (timeout !== undefined) {
+        timeoutId = setTimeout(() => {
+          this.sendInternal(MESSAGE_TYPES.CANCEL, { id })
+          settle()
+          reject(
+            new DOMException(
+              `Request "${method}" timed out after ${timeout}ms`,
+              'TimeoutError'
+            )
+          )
+        }, timeout)
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.sendInternal(MESSAGE_TYPES.REQUEST, {
+        id,
+        method,
+        params: parameters,
+      })
+    })
+  }
+
+  /**
+   * Open a stream served by a handler registered with PortManager.handleStream()
+   * The request is sent when iteration starts. Leaving a for await loop early
+   * or aborting the signal cancels the handler in the SharedWorker
+   * @throws RemoteError if the handler throws, or the client goes stale or is removed
+   */
+  async *stream<TChunk = unknown>(
+    method: string,
+    parameters?: unknown,
+    options: StreamOptions = {}
+  ): AsyncGenerator<TChunk, void, undefined> {
+    const { signal } = options
+
+    if (signal?.aborted) {
+      throw signal.reason
+    }
+
+    const id = ++this.nextRequestId
+    const chunks: TChunk[] = []
+    let done = false
+    let failure: { error: unknown } | undefined
+    let wake: (() => void) | undefined
+
+    const notify = (): void => {
+      wake?.()
+      wake = undefined
+    }
+
+    const onAbort = (): void => {
+      this.sendInternal(MESSAGE_TYPES.CANCEL, { id })
+      this.pendingRequests.delete(id)
+      chunks.length = 0
+      failure = { error: signal?.reason }
+      notify()
+    }
+
+    this.pendingRequests.set(id, {
+      resolve: () => {
+        this.pendingRequests.delete(id)
+        done = true
+        notify()
+      },
+      reject: (error) => {
+        this.pendingRequests.delete(id)
+        failure = { error }
+        notify()
+      },
+      push: (chunk) => {
+        chunks.push(chunk as TChunk)
+        notify()
+      },
+    })
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    this.sendInternal(MESSAGE_TYPES.REQUEST, {
+      id,
+      method,
+      params: parameters,
+      stream: true,
+    })
+
+    try {
+      while (true) {
+        if (chunks.length > 0) {
+          yield chunks.shift() as TChunk
+        } else if (failure) {
+          throw failure.error
+        } else if (done) {
+          return
+        } else {
+          await new Promise<void>((resolve) => {
+            wake = resolve
+          })
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+      // The consumer stopped iterating before the stream ended
+      if (this.pendingRequests.delete(id)) {
+        this.sendInternal(MESSAGE_TYPES.CANCEL, { id })
+      }
+    }
+  }
+
+  /**
+   * Subscribe to messages the SharedWorker publishes on a topic
+   * Published messages are delivered to onMessage
+   */
+  subscribe(topic: string): void {
+    if (this.subscriptions.has(topic)) return
+
+    this.subscriptions.add(topic)
+    this.sendInternal(MESSAGE_TYPES.SUBSCRIBE, { topic })
+    this.log('Subscribed to topic', 'debug', { topic })
+  }
+
+  /**
+   * Stop receiving messages published on a topic
+   */
+  unsubscribe(topic: string): void {
+    if (!this.subscriptions.delete(topic)) return
+
+    this.sendInternal(MESSAGE_TYPES.UNSUBSCRIBE, { topic })
+    this.log('Unsubscribed from topic', 'debug', { topic })
+  }
+
+  /**
+   * Get the topics this client is subscribed to
+   */
+  getSubscriptions(): string[] {
+    return [...this.subscriptions]
+  }
+
+  /**
+   * Mirror a SharedState created with the same name in the SharedWorker
+   * Returns the same mirror for repeated calls with the same name
+   */
+  getSharedState<T>(name: string): SharedStateMirror<T> {
+    let mirror = this.sharedStates.get(name) as SharedStateMirror<T> | undefined
+    if (mirror) return mirror
+
+    mirror = new SharedStateMirror<T>(name, this, this.onLog)
+    this.sharedStates.set(name, mirror as SharedStateMirror<unknown>)
+    this.sendInternal(MESSAGE_TYPES.SUBSCRIBE, { topic: getStateTopic(name) })
+    mirror.sync()
+    this.log('Mirroring shared state', 'debug', { name })
+
+    return mirror
   }
 
   /**
@@ -68,11 +602,41 @@ export class SharedWorkerClient<TMessage = unknown> extends Logger {
    * Clean up event listeners and close the port
    */
   destroy(): void {
+    clearTimeout(this.reconnectTimeoutId)
+    clearTimeout(this.userIdleTimeoutId)
+    clearTimeout(this.heartbeatTimeoutId)
+    clearTimeout(this.shutdownTimeoutId)
     this.abortController.abort()
+    this.connectionController?.abort()
     this.port.close()
+    this.portClosed = true
+    this.rejectPendingRequests('SharedWorkerClient destroyed')
+    this.setConnectionState('disconnected')
     this.log('SharedWorkerClient destroyed', 'info')
   }
 
+  /**
+   * Get the ID this client identifies itself with, stable across reconnects
+   */
+  getClientId(): string {
+    return this.clientId
+  }
+
+  /**
+   * Get the current connection state
+   */
+  getConnectionState(): ConnectionState {
+    return this.connectionState
+  }
+
+  /**
+   * Get the last measured round-trip time and clock offset to the SharedWorker
+   * @returns undefined until the SharedWorker has measured a round trip
+   */
+  getLatency(): LatencyInfo | undefined {
+    return this.latency
+  }
+
   /**
    * Check if the tab is currently visible
    */
@@ -80,33 +644,504 @@ export class SharedWorkerClient<TMessage = unknown> extends Logger {
     return this.isTabVisible
   }
 
+  /**
+   * Check if the tab has focus
+   */
+  isFocused(): boolean {
+    return this.isTabFocused
+  }
+
+  /**
+   * Check if the user has not interacted with the tab for the userIdle
+   * timeout. Always false without the userIdle option
+   */
+  isUserIdle(): boolean {
+    return this.userIdle
+  }
+
+  /**
+   * Get the Page Lifecycle state the SharedWorker was told about
+   */
+  getLifecycleState(): LifecycleState {
+    if (this.isFrozen) return 'frozen'
+    return this.isTabVisible ? 'visible' : 'hidden'
+  }
+
   private handleMessage = (event: MessageEvent): void => {
-    const message = event.data as { type?: string }
+    this.resetHeartbeat()
+    // Responses still arrive while a shutting down SharedWorker drains
+    if (this.connectionState === 'reconnecting' && !this.workerShuttingDown) {
+      this.reconnectAttempts = 0
+      this.setConnectionState('connected')
+      this.log('Reconnected to SharedWorker', 'info')
+    }
+
+    this.codecs.decode(event.data, this.runInboundMiddleware, (error) => {
+      this.log('Failed to decode message from SharedWorker', 'warn', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+  }
+
+  private runInboundMiddleware = (message: unknown): void => {
+    this.middleware.run(
+      { direction: 'inbound', message, internal: isInternalMessage(message) },
+      (context) => this.dispatch(context.message),
+      this.handleMiddlewareError
+    )
+  }
+
+  private dispatch(data: unknown): void {
+    const message = data as { type?: string }
 
     // Handle internal ping messages
     if (message.type === MESSAGE_TYPES.PING) {
       this.log('Received ping from SharedWorker, sending pong', 'debug')
-      this.sendInternal(MESSAGE_TYPES.PONG)
+      const { timestamp } = data as PingMessage
+      this.lastPing = { timestamp, receivedAt: Date.now() }
+      this.sendInternal(MESSAGE_TYPES.PONG, { timestamp })
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.LATENCY) {
+      this.handleLatency(data as LatencyMessage)
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.CONNECT_ACK) {
+      this.handleConnectAck(data as ConnectAckMessage)
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.READY) {
+      this.handleReady()
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.RESPONSE) {
+      this.handleResponse(data as ResponseMessage)
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.STREAM_CHUNK) {
+      const { id, chunk } = data as StreamChunkMessage
+      this.pendingRequests.get(id)?.push?.(chunk)
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.STATE_PATCH) {
+      const patch = data as StatePatchMessage
+      this.sharedStates.get(patch.name)?.handlePatch(patch)
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.MESSAGE_REJECTED) {
+      const { messageType, error } = data as MessageRejectedMessage
+      this.log('SharedWorker rejected a message', 'warn', {
+        messageType,
+        error,
+      })
+      this.onMessageRejected?.({ messageType, error })
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.SHUTDOWN) {
+      this.handleShutdown(data as ShutdownMessage)
+      return
+    }
+
+    if (message.type === MESSAGE_TYPES.RATE_LIMITED) {
+      const { type: _type, ...notice } = data as RateLimitedMessage
+      this.log('SharedWorker rate limited this client', 'warn', { ...notice })
+      this.onRateLimited?.(notice)
       return
     }
 
     // Filter out other internal messages
-    if (
-      message.type &&
-      Object.values(MESSAGE_TYPES).includes(
-        message.type as (typeof MESSAGE_TYPES)[keyof typeof MESSAGE_TYPES]
+    if (isInternalMessage(message)) {
+      return
+    }
+
+    // Pass non-internal messages to the consumer
+    this.handleApplicationMessage(data)
+  }
+
+  /**
+   * Validate an application message against the contract (if any) and pass
+   * it to onMessage
+   */
+  private handleApplicationMessage(data: unknown): void {
+    if (!this.contract) {
+      this.onMessage(data as TMessage)
+      return
+    }
+
+    const result = validateMessage(this.contract.worker, data)
+    if (result.valid) {
+      this.onMessage(result.message as TMessage)
+      return
+    }
+
+    const messageType = (data as { type?: unknown } | undefined)?.type
+    const rejection: MessageRejection = {
+      ...(typeof messageType === 'string' && { messageType }),
+      error: result.error,
+    }
+    this.log('Rejected invalid message from SharedWorker', 'warn', {
+      ...rejection,
+    })
+
+    if (this.reportInvalidMessages) {
+      this.sendInternal(MESSAGE_TYPES.MESSAGE_REJECTED, { ...rejection })
+    }
+  }
+
+  private handleConnectAck(message: ConnectAckMessage): void {
+    const { mismatch } = message
+    if (!mismatch) {
+      this.log('Handshake complete', 'debug', {
+        protocolVersion: message.protocolVersion,
+      })
+      return
+    }
+
+    this.log('SharedWorker reported a version mismatch', 'warn', {
+      ...mismatch,
+    })
+
+    if (this.onVersionMismatch) {
+      this.onVersionMismatch(mismatch)
+    } else if (mismatch.action === 'reload') {
+      location.reload()
+    }
+
+    if (mismatch.action === 'reject') {
+      this.destroy()
+    }
+  }
+
+  /**
+   * Estimate the clock offset once the SharedWorker has timed the round trip
+   * of the last ping. The ping took about half the round trip to arrive
+   */
+  private handleLatency({ timestamp, latency }: LatencyMessage): void {
+    if (timestamp !== this.lastPing?.timestamp) return
+
+    this.latency = {
+      latency,
+      clockOffset: timestamp + latency / 2 - this.lastPing.receivedAt,
+    }
+    this.onLatency?.(this.latency)
+  }
+
+  /**
+   * Send the queued messages in order and resolve ready()
+   */
+  private handleReady(): void {
+    if (this.workerReady) return
+
+    this.workerReady = true
+    this.log('SharedWorker ready', 'debug', {
+      queued: this.queuedMessages.length,
+    })
+
+    this.flushQueue()
+    this.resolveReady()
+  }
+
+  private flushQueue(): void {
+    const queued = this.queuedMessages
+    this.queuedMessages = []
+    for (const { message, options } of queued) this.post(message, options)
+  }
+
+  /**
+   * Let in-flight requests finish, then reconnect to a new SharedWorker
+   * once the old one has closed its ports
+   */
+  private handleShutdown(message: ShutdownMessage): void {
+    const { type: _type, ...notice } = message
+    this.log('SharedWorker is shutting down', 'info', { ...notice })
+    this.workerShuttingDown = true
+    if (this.createWorker && this.reconnectOptions) {
+      this.setConnectionState('reconnecting')
+    }
+    this.onShutdown?.(notice)
+
+    clearTimeout(this.shutdownTimeoutId)
+    this.shutdownTimeoutId = setTimeout(() => {
+      if (this.createWorker && this.reconnectOptions) {
+        this.reconnect()
+        return
+      }
+
+      this.rejectPendingRequests('SharedWorker shut down')
+      this.dropConnection()
+      this.setConnectionState('disconnected')
+    }, notice.drainTimeout)
+  }
+
+  private handleResponse(message: ResponseMessage): void {
+    const pending = this.pendingRequests.get(message.id)
+    if (!pending) {
+      // Request already timed out or was aborted
+      return
+    }
+
+    if ('error' in message) {
+      pending.reject(new RemoteError(message.error))
+    } else {
+      pending.resolve(message.result)
+    }
+  }
+
+  /**
+   * Attach to a SharedWorker's port and start watching it
+   */
+  private connect(worker: SharedWorkerLike): void {
+    this.connectionController = new AbortController()
+    const { signal } = this.connectionController
+    this.workerShuttingDown = false
+    this.latency = undefined
+    this.lastPing = undefined
+
+    // A new connection has to be ready again
+    if (this.workerReady || !this.readyPromise) {
+      this.workerReady = false
+      this.readyPromise = new Promise((resolve) => {
+        this.resolveReady = resolve
+      })
+    }
+
+    this.port = worker.port
+    this.portClosed = false
+    this.port.addEventListener('message', this.handleMessage, { signal })
+    worker.addEventListener('error', this.handleWorkerError, { signal })
+    this.port.start()
+
+    this.sendInternal(MESSAGE_TYPES.CONNECT, {
+      clientId: this.clientId,
+      metadata: {
+        url: location.href,
+        userAgent: navigator.userAgent,
+        connectedAt: Date.now(),
+        custom: this.metadata,
+      },
+      libraryVersion: PROTOCOL_VERSION,
+      ...(this.protocolVersion !== undefined && {
+        protocolVersion: this.protocolVersion,
+      }),
+    })
+    this.sendUserActivity()
+
+    this.resetHeartbeat()
+  }
+
+  /**
+   * Hold a uniquely named Web Lock until the client is destroyed or the tab
+   * goes away, and tell the SharedWorker to wait for it
+   */
+  private acquireLivenessLock(): void {
+    if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+      this.log('Web Locks not supported, relying on heartbeats', 'debug')
+      return
+    }
+
+    const name = `${LIVENESS_LOCK_PREFIX}${createId()}`
+    const { signal } = this.abortController
+
+    navigator.locks
+      .request(
+        name,
+        { signal },
+        () =>
+          new Promise<void>((resolve) => {
+            this.livenessLock = name
+            this.sendInternal(MESSAGE_TYPES.LIVENESS_LOCK, { name })
+            this.log('Holding liveness lock', 'debug', { name })
+            signal.addEventListener('abort', () => resolve(), { once: true })
+          })
       )
+      .catch(() => {
+        // Destroyed before the lock was granted
+      })
+  }
+
+  private handleWorkerError = (): void => {
+    this.log('SharedWorker error', 'error')
+    this.reconnect()
+  }
+
+  /**
+   * Restart the heartbeat timer, which reconnects if the SharedWorker goes quiet
+   */
+  private resetHeartbeat(): void {
+    clearTimeout(this.heartbeatTimeoutId)
+    if (!this.reconnectOptions) return
+
+    this.heartbeatTimeoutId = setTimeout(() => {
+      this.log('SharedWorker stopped responding', 'warn', {
+        heartbeatTimeout: this.reconnectOptions?.heartbeatTimeout,
+      })
+      this.reconnect()
+    }, this.reconnectOptions.heartbeatTimeout)
+  }
+
+  /**
+   * Drop the current connection and schedule a new one with backoff
+   * @param immediate - Connect again right away, without backoff
+   */
+  private reconnect(immediate = false): void {
+    const { createWorker, reconnectOptions } = this
+    if (
+      !createWorker ||
+      !reconnectOptions ||
+      this.abortController.signal.aborted
     ) {
       return
     }
 
-    // Pass non-internal messages to the consumer
-    this.onMessage(event.data as TMessage)
+    this.dropConnection()
+
+    if (immediate) {
+      this.setConnectionState('reconnecting')
+      this.log('Reconnecting to SharedWorker', 'info', { immediate })
+      this.reopen(createWorker)
+      return
+    }
+
+    const { initialDelay, maxDelay, backoffMultiplier, maxAttempts } =
+      reconnectOptions
+
+    if (this.reconnectAttempts >= maxAttempts) {
+      this.log('Giving up reconnecting to SharedWorker', 'error', {
+        attempts: this.reconnectAttempts,
+      })
+      this.rejectPendingRequests('Connection to SharedWorker lost')
+      this.setConnectionState('disconnected')
+      return
+    }
+
+    const delay = getBackoffDelay(this.reconnectAttempts, {
+      initialDelay,
+      maxDelay,
+      backoffMultiplier,
+    })
+    this.reconnectAttempts++
+    this.setConnectionState('reconnecting')
+    this.log('Reconnecting to SharedWorker', 'info', {
+      attempt: this.reconnectAttempts,
+      delayMs: delay,
+    })
+
+    this.reconnectTimeoutId = setTimeout(() => this.reopen(createWorker), delay)
   }
 
-  private setupMessageHandler(): void {
-    this.port.addEventListener('message', this.handleMessage, {
-      signal: this.abortController.signal,
+  /**
+   * Close the current port and reject the requests sent over it
+   */
+  private dropConnection(): void {
+    clearTimeout(this.heartbeatTimeoutId)
+    clearTimeout(this.reconnectTimeoutId)
+    clearTimeout(this.shutdownTimeoutId)
+    this.connectionController?.abort()
+    // Best effort - lets a worker that is still alive drop the old port
+    this.sendInternal(MESSAGE_TYPES.DISCONNECT)
+    this.port.close()
+    this.portClosed = true
+    this.rejectPendingRequests('Connection to SharedWorker lost', true)
+  }
+
+  /**
+   * Connect to a new SharedWorker and replay the client's state to it
+   */
+  private reopen(createWorker: () => SharedWorkerLike): void {
+    let worker: SharedWorkerLike
+    try {
+      worker = createWorker()
+    } catch (error) {
+      this.log('Failed to create SharedWorker', 'error', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      this.reconnect()
+      return
+    }
+
+    this.connect(worker)
+    this.replayState()
+    // Without queueUntilReady, messages held while reconnecting go out now
+    if (!this.outboundQueue) this.flushQueue()
+  }
+
+  /**
+   * Send client state the new SharedWorker connection does not know about
+   */
+  private replayState(): void {
+    this.sendLifecycleState()
+    for (const topic of this.subscriptions) {
+      this.sendInternal(MESSAGE_TYPES.SUBSCRIBE, { topic })
+    }
+    for (const [name, mirror] of this.sharedStates) {
+      this.sendInternal(MESSAGE_TYPES.SUBSCRIBE, { topic: getStateTopic(name) })
+      mirror.sync()
+    }
+    if (this.livenessLock !== undefined) {
+      this.sendInternal(MESSAGE_TYPES.LIVENESS_LOCK, {
+        name: this.livenessLock,
+      })
+    }
+
+    this.log('Replayed state to SharedWorker', 'debug', {
+      visible: this.isTabVisible,
+      subscriptions: this.subscriptions.size,
+      sharedStates: this.sharedStates.size,
+    })
+  }
+
+  /**
+   * @param keepQueued - Keep requests that were never sent, to send them over
+   * the next connection
+   */
+  private rejectPendingRequests(reason: string, keepQueued = false): void {
+    const queuedIds = new Set<unknown>()
+    if (keepQueued) {
+      for (const { message } of this.queuedMessages) {
+        const { type, id } = message as { type?: unknown; id?: unknown }
+        if (type === MESSAGE_TYPES.REQUEST) queuedIds.add(id)
+      }
+    }
+
+    for (const [id, pending] of this.pendingRequests) {
+      if (!queuedIds.has(id)) {
+        pending.reject(new DOMException(reason, 'AbortError'))
+      }
+    }
+    if (keepQueued) return
+
+    // Queued requests are rejected with the others and must not be sent later
+    this.queuedMessages = this.queuedMessages.filter(
+      ({ message }) =>
+        (message as { type?: unknown }).type !== MESSAGE_TYPES.REQUEST
+    )
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    if (state === this.connectionState) return
+
+    this.connectionState = state
+    this.log('Connection state changed', 'info', { state })
+    this.onConnectionStateChange?.(state)
+  }
+
+  /**
+   * Tell the SharedWorker whether the tab is visible, hidden or frozen
+   * visible is still sent for SharedWorkers that predate the lifecycle state
+   */
+  private sendLifecycleState(): void {
+    const state = this.getLifecycleState()
+    this.sendInternal(MESSAGE_TYPES.VISIBILITY_CHANGE, {
+      state,
+      visible: state === 'visible',
     })
   }
 
@@ -119,10 +1154,72 @@ export class SharedWorkerClient<TMessage = unknown> extends Logger {
         visible: this.isTabVisible,
       })
 
-      this.sendInternal(MESSAGE_TYPES.VISIBILITY_CHANGE, {
-        visible: this.isTabVisible,
-      })
+      this.sendLifecycleState()
+    }
+  }
+
+  /**
+   * The page is frozen or entering the back/forward cache, so it will not
+   * answer pings. Its own heartbeat timer would fire late on resume, so it is
+   * stopped until then
+   */
+  private handleFreeze = (): void => {
+    if (this.isFrozen) return
+
+    this.isFrozen = true
+    clearTimeout(this.heartbeatTimeoutId)
+    this.log('Page frozen', 'info')
+    this.sendLifecycleState()
+  }
+
+  private handleResume = (): void => {
+    if (!this.isFrozen) return
+
+    this.isFrozen = false
+    this.isTabVisible = this.getDocumentVisibility()
+    this.log('Page resumed', 'info', { visible: this.isTabVisible })
+    this.sendLifecycleState()
+    this.resetHeartbeat()
+  }
+
+  /**
+   * Only a page that is really unloading disconnects. One entering the
+   * back/forward cache may be restored later
+   */
+  private handlePageHide = (event: PageTransitionEvent): void => {
+    if (event.persisted) {
+      this.handleFreeze()
+    } else {
+      this.disconnect()
+    }
+  }
+
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    if (!event.persisted) return
+
+    this.log('Page restored from the back/forward cache', 'info')
+    this.handleResume()
+    // The SharedWorker may have dropped this client, or stopped, while the
+    // page was cached
+    if (this.createWorker && this.reconnectOptions) {
+      this.reconnect(true)
+      return
     }
+
+    // A SharedWorker instance cannot be connected to again, but its port may
+    // still be open. handleResume resent the lifecycle state, and the
+    // SharedWorker restores a stale client it hears from and pings it again,
+    // so the port is only given up if the SharedWorker stays silent
+    this.sendUserActivity()
+    clearTimeout(this.heartbeatTimeoutId)
+    this.heartbeatTimeoutId = setTimeout(() => {
+      this.log('SharedWorker did not answer after restore', 'warn', {
+        heartbeatTimeout: DEFAULT_HEARTBEAT_TIMEOUT,
+      })
+      this.rejectPendingRequests('Connection to SharedWorker lost')
+      this.dropConnection()
+      this.setConnectionState('disconnected')
+    }, DEFAULT_HEARTBEAT_TIMEOUT)
   }
 
   private setupVisibilityHandler(): void {
@@ -131,14 +1228,78 @@ export class SharedWorkerClient<TMessage = unknown> extends Logger {
     })
   }
 
-  private setupUnloadHandler(): void {
-    window.addEventListener(
-      'beforeunload',
-      () => {
-        this.disconnect()
-      },
-      { signal: this.abortController.signal }
-    )
+  private sendUserActivity(): void {
+    this.sendInternal(MESSAGE_TYPES.USER_ACTIVITY, {
+      focused: this.isTabFocused,
+      idle: this.userIdle,
+    })
+  }
+
+  private handleFocusChange = (): void => {
+    const focused = document.hasFocus()
+    if (focused === this.isTabFocused) return
+
+    this.isTabFocused = focused
+    this.log('Tab focus changed', 'info', { focused })
+    this.sendUserActivity()
+  }
+
+  private setupFocusHandlers(): void {
+    const { signal } = this.abortController
+    window.addEventListener('focus', this.handleFocusChange, { signal })
+    window.addEventListener('blur', this.handleFocusChange, { signal })
+  }
+
+  /**
+   * Watch for user input and report the user idle after timeout milliseconds
+   * without any. Input only records a timestamp, so frequent events such as
+   * pointermove stay cheap
+   */
+  private setupUserIdleTracking(timeout: number, events: string[]): void {
+    const { signal } = this.abortController
+    this.userIdleTimeout = timeout
+    for (const type of events) {
+      document.addEventListener(type, this.handleUserInput, {
+        signal,
+        capture: true,
+        passive: true,
+      })
+    }
+    this.scheduleUserIdleCheck(timeout)
+  }
+
+  private handleUserInput = (): void => {
+    this.lastInputAt = Date.now()
+    if (!this.userIdle || this.userIdleTimeout === undefined) return
+
+    this.userIdle = false
+    this.log('User active again', 'debug')
+    this.sendUserActivity()
+    this.scheduleUserIdleCheck(this.userIdleTimeout)
+  }
+
+  private scheduleUserIdleCheck(delay: number): void {
+    clearTimeout(this.userIdleTimeoutId)
+    this.userIdleTimeoutId = setTimeout(() => {
+      const timeout = this.userIdleTimeout ?? 0
+      const inputFor = Date.now() - this.lastInputAt
+      if (inputFor < timeout) {
+        this.scheduleUserIdleCheck(timeout - inputFor)
+        return
+      }
+
+      this.userIdle = true
+      this.log('User idle', 'debug', { timeout })
+      this.sendUserActivity()
+    }, delay)
+  }
+
+  private setupLifecycleHandlers(): void {
+    const { signal } = this.abortController
+    window.addEventListener('pagehide', this.handlePageHide, { signal })
+    window.addEventListener('pageshow', this.handlePageShow, { signal })
+    document.addEventListener('freeze', this.handleFreeze, { signal })
+    document.addEventListener('resume', this.handleResume, { signal })
   }
 
   protected getLogPrefix(): string {
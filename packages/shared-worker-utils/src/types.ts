@@ -23,35 +23,1005 @@ export interface LogEntry {
   context?: Record<string, unknown>
 }
 
+/**
+ * Checks that an inbound message is well formed
+ * Either a type guard or an object with a parse() method that throws on
+ * invalid input (such as a zod schema)
+ */
+export type Validator<T> =
+  | ((value: unknown) => value is T)
+  | { parse: (value: unknown) => T }
+
+/**
+ * Validators keyed by message type
+ */
+export type ValidatorMap = Record<string, Validator<unknown>>
+
+/**
+ * The message type a validator accepts
+ */
+export type InferValidator<V> = V extends (value: unknown) => value is infer T
+  ? T
+  : V extends { parse: (value: unknown) => infer T }
+    ? T
+    : never
+
+/**
+ * Union of the messages described by a validator map
+ */
+export type MessagesOf<TValidators extends ValidatorMap> = {
+  [K in keyof TValidators & string]: InferValidator<TValidators[K]> & {
+    type: K
+  }
+}[keyof TValidators & string]
+
+/**
+ * Message validators shared by PortManager and SharedWorkerClient
+ * Created with defineContract()
+ * @template TClientMessage - Messages clients send to the SharedWorker
+ * @template TWorkerMessage - Messages the SharedWorker sends to clients
+ */
+export interface MessageContract<
+  TClientMessage = unknown,
+  TWorkerMessage = unknown,
+> {
+  client: ValidatorMap
+  worker: ValidatorMap
+  /**
+   * Type-only marker used to infer message types, never set at runtime
+   */
+  readonly __messages?: { client: TClientMessage; worker: TWorkerMessage }
+}
+
+/**
+ * Converts messages to and from what goes over the port, for example a
+ * binary format such as MessagePack or CBOR, compression or class revival
+ * PortManager and SharedWorkerClient must use the same codecs
+ */
+export interface MessageCodec {
+  /**
+   * Convert a message before postMessage(), optionally asynchronously
+   * A returned ArrayBuffer is transferred instead of copied
+   */
+  encode(message: unknown): unknown
+
+  /**
+   * Convert received data back into a message, optionally asynchronously
+   * Throw (or reject) to drop data that cannot be decoded
+   */
+  decode(data: unknown): unknown
+}
+
+export type MiddlewareDirection = 'inbound' | 'outbound'
+
+/**
+ * Called for every message in or out, in the order the middleware was added
+ * Call next() to pass the message on, or return without calling it to stop
+ * the message. Await next() to run code after the rest of the chain
+ */
+export type Middleware<TContext> = (
+  context: TContext,
+  next: () => void | Promise<void>
+) => void | Promise<void>
+
+/**
+ * Context passed to SharedWorkerClient middleware
+ */
+export interface ClientMiddlewareContext {
+  /**
+   * 'inbound' for messages from the SharedWorker, 'outbound' for messages to it
+   */
+  direction: MiddlewareDirection
+
+  /**
+   * The message. Assign a new value to rewrite it for the rest of the chain
+   */
+  message: unknown
+
+  /**
+   * Whether this is an internal message (ping, request, subscribe...)
+   */
+  internal: boolean
+}
+
+/**
+ * Context passed to PortManager middleware
+ */
+export interface PortManagerMiddlewareContext extends ClientMiddlewareContext {
+  /**
+   * The port the message arrived on or is sent to
+   */
+  port: MessagePort
+
+  /**
+   * State of the client behind the port
+   */
+  client: ClientState
+}
+
+export interface SendOptions {
+  /**
+   * Objects to transfer rather than clone, such as ArrayBuffers
+   * Transferred objects become unusable in the sender
+   */
+  transfer?: Transferable[]
+}
+
+/**
+ * Sent back to the sender of a message that failed contract validation
+ */
+export interface MessageRejection {
+  /**
+   * The type of the rejected message, if it had one
+   */
+  messageType?: string
+
+  /**
+   * Why the message was rejected
+   */
+  error: string
+}
+
+/**
+ * Application protocol version, compared between clients and the SharedWorker
+ */
+export type ProtocolVersion = string | number
+
+/**
+ * What happens to a client whose versions do not match the SharedWorker's
+ * - 'warn': log and keep the client
+ * - 'reject': remove the client (the client destroys itself)
+ * - 'reload': keep the client and ask it to reload the page
+ */
+export type VersionMismatchAction = 'warn' | 'reject' | 'reload'
+
+/**
+ * Details of an incompatible client, sent to it in the connect acknowledgement
+ */
+export interface VersionMismatch {
+  /**
+   * Internal protocol version of the client library (undefined for clients
+   * that predate version negotiation)
+   */
+  clientLibraryVersion?: number
+
+  /**
+   * Internal protocol version of the SharedWorker's library
+   */
+  workerLibraryVersion: number
+
+  /**
+   * Application protocol version of the client
+   */
+  clientProtocolVersion?: ProtocolVersion
+
+  /**
+   * Application protocol version of the SharedWorker
+   */
+  workerProtocolVersion?: ProtocolVersion
+
+  /**
+   * What the SharedWorker did about the mismatch
+   */
+  action: VersionMismatchAction
+}
+
+/**
+ * How broadcast() and publish() deliver application messages to hidden clients
+ * - 'deliver': send immediately, as for visible clients
+ * - 'drop': discard the message
+ * - 'buffer': keep the latest `limit` messages
+ * - 'coalesce': keep only the newest message per key, for example one
+ *   stock update per symbol. Messages without a key are buffered as they are
+ * Held messages are sent in order when the client becomes visible again
+ */
+export type HiddenDeliveryPolicy =
+  | { mode: 'deliver' }
+  | { mode: 'drop' }
+  | { mode: 'buffer'; limit: number }
+  | {
+      mode: 'coalesce'
+      key: (message: unknown) => string | undefined
+      limit?: number
+    }
+
+/**
+ * A token bucket allowing `rate` messages per second on average, in bursts
+ * of up to `burst` messages
+ */
+export interface RateLimit {
+  rate: number
+
+  /**
+   * @default rate
+   */
+  burst?: number
+}
+
+/**
+ * Limits on the application messages and requests each client may send
+ * Other internal messages (pongs, subscriptions...) are not limited
+ */
+export interface RateLimitOptions {
+  /**
+   * Limit for all of a client's messages together
+   */
+  perClient?: RateLimit
+
+  /**
+   * Limits per application message type or request method
+   */
+  perType?: Record<string, RateLimit>
+
+  /**
+   * Drop messages over the limit, or queue them until the client is within
+   * its limits again. Dropped requests are rejected
+   * @default 'drop'
+   */
+  overflow?: 'drop' | 'queue'
+
+  /**
+   * Maximum number of queued messages per client. Further messages are dropped
+   * @default 100
+   */
+  queueLimit?: number
+
+  /**
+   * Disconnect a client after this many messages over the limit, counted
+   * until its limits have fully recovered
+   * @default 100
+   */
+  disconnectAfter?: number
+}
+
+export type RateLimitAction = 'dropped' | 'queued' | 'disconnected'
+
+/**
+ * Passed to PortManagerOptions.onRateLimited
+ */
+export interface RateLimitEvent {
+  clientId?: string
+
+  /**
+   * Type of the limited application message
+   */
+  messageType?: string
+
+  /**
+   * Method of the limited request
+   */
+  method?: string
+
+  action: RateLimitAction
+
+  /**
+   * Messages over the limit since the client's limits last fully recovered
+   */
+  violations: number
+}
+
+/**
+ * Sent to a client when its messages go over the limit
+ */
+export interface RateLimitNotice {
+  messageType?: string
+  method?: string
+  action: RateLimitAction
+
+  /**
+   * Milliseconds until the client is within its limits again
+   */
+  retryAfter: number
+}
+
+export interface TokenBucket {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Rate limiting state of a single client
+ */
+export interface RateLimitState {
+  client?: TokenBucket
+  types: Map<string, TokenBucket>
+  /**
+   * Messages waiting for tokens, in the order they arrived
+   */
+  queue: unknown[]
+  violations: number
+  drainTimeoutId?: ReturnType<typeof setTimeout>
+}
+
+export interface HeartbeatOptions {
+  /**
+   * Maximum time to wait for a pong from a hidden tab in milliseconds
+   * Browsers throttle timers in hidden tabs, so they often answer late
+   * @default 60000, or pingTimeout if that is longer
+   */
+  hiddenTimeout?: number
+
+  /**
+   * Give clients that answer slowly more time, based on their average
+   * pong latency
+   * @default false
+   */
+  adaptive?: boolean | AdaptiveHeartbeatOptions
+}
+
+export interface AdaptiveHeartbeatOptions {
+  /**
+   * Wait at least this many times a client's average latency
+   * @default 4
+   */
+  latencyMultiplier?: number
+
+  /**
+   * Never let latency stretch a timeout beyond this many milliseconds
+   * @default 120000
+   */
+  maxTimeout?: number
+}
+
+/**
+ * HeartbeatOptions with defaults filled in
+ */
+export interface HeartbeatPolicy {
+  visibleTimeout: number
+  hiddenTimeout: number
+  adaptive?: Required<AdaptiveHeartbeatOptions>
+}
+
+/**
+ * Why a client was marked stale: it did not answer pings in time while
+ * visible, or while hidden
+ */
+export type StaleReason = 'ping-timeout' | 'hidden-ping-timeout'
+
+/**
+ * Passed to PortManagerOptions.onClientStale
+ */
+export interface StaleEvent {
+  clientId?: string
+  reason: StaleReason
+
+  /**
+   * Milliseconds since the client was last heard from
+   */
+  silentFor: number
+
+  /**
+   * The ping timeout that applied to the client
+   */
+  timeout: number
+}
+
+/**
+ * Why a client was removed: it disconnected, its tab closed (detected with
+ * its liveness lock), its version was rejected, it stayed stale past
+ * staleClientTimeout, was removed with removeStaleClients(), the PortManager
+ * was destroyed or shut down, or the client flooded it
+ */
+export type ClientRemoveReason =
+  | 'disconnect'
+  | 'closed'
+  | 'version-mismatch'
+  | 'timeout'
+  | 'manual'
+  | 'destroy'
+  | 'rate-limit'
+
 export interface PortManagerOptions<TMessage = unknown> {
   /**
-   * Interval between ping messages in milliseconds
-   * @default 10000
+   * Interval between ping messages in milliseconds
+   * @default 10000
+   */
+  pingInterval?: number
+
+  /**
+   * Maximum time to wait for pong response after ping in milliseconds
+   * @default 5000
+   */
+  pingTimeout?: number
+
+  /**
+   * Auto-remove stale clients after this many milliseconds
+   * @default undefined (no auto-removal)
+   */
+  staleClientTimeout?: number
+
+  /**
+   * Longer ping timeouts for hidden tabs, and timeouts that adapt to each
+   * client's latency. The policy applies to all clients
+   * @default { hiddenTimeout: 60000, adaptive: false }
+   */
+  heartbeat?: HeartbeatOptions
+
+  /**
+   * Callback when active or total client count changes
+   */
+  onActiveCountChange?: (activeCount: number, totalCount: number) => void
+
+  /**
+   * Callback when there have been no active clients for idleDelay
+   * Not called again until onActive has been called
+   */
+  onIdle?: () => void
+
+  /**
+   * Callback when there have been active clients for activeDelay, after
+   * being idle. The PortManager starts out idle
+   */
+  onActive?: () => void
+
+  /**
+   * Milliseconds without active clients before onIdle, so quickly switching
+   * tabs does not count as idle
+   * @default 5000
+   */
+  idleDelay?: number
+
+  /**
+   * Milliseconds with active clients before onActive
+   * @default 0
+   */
+  activeDelay?: number
+
+  /**
+   * Callback for non-internal messages from clients
+   * Internal messages (prefixed with @shared-worker-utils/) are filtered out
+   */
+  onMessage?: (port: MessagePort, message: TMessage) => void
+
+  /**
+   * Validate messages from clients before they reach onMessage
+   * Also types onMessage with the contract's client messages
+   */
+  contract?: MessageContract<TMessage, unknown>
+
+  /**
+   * Encode every message sent to clients and decode every message received
+   * A list of codecs encodes in order and decodes in reverse order
+   * @default undefined (messages are structured-cloned as they are)
+   */
+  codec?: MessageCodec | MessageCodec[]
+
+  /**
+   * Middleware run on every decoded message from a client and every message
+   * sent to one, before it is encoded. More can be added with use()
+   * Throwing in inbound middleware rejects a request with the error
+   */
+  middleware?: Array<Middleware<PortManagerMiddlewareContext>>
+
+  /**
+   * Tell clients when one of their messages fails contract validation
+   * @default false
+   */
+  reportInvalidMessages?: boolean
+
+  /**
+   * Callback when a client reports that a message from the SharedWorker
+   * failed its contract validation
+   */
+  onMessageRejected?: (port: MessagePort, rejection: MessageRejection) => void
+
+  /**
+   * Limit how fast each client may send application messages and requests
+   * @default undefined (not limited)
+   */
+  rateLimit?: RateLimitOptions
+
+  /**
+   * Callback when a client's message is dropped or queued for going over
+   * rateLimit, or the client is disconnected for flooding
+   */
+  onRateLimited?: (port: MessagePort, event: RateLimitEvent) => void
+
+  /**
+   * How broadcast() and publish() deliver application messages to hidden clients
+   * Internal messages are always delivered
+   * @default { mode: 'deliver' }
+   */
+  hiddenDelivery?: HiddenDeliveryPolicy
+
+  /**
+   * Application protocol version expected from clients
+   * @default undefined (application versions are not checked)
+   */
+  protocolVersion?: ProtocolVersion
+
+  /**
+   * Decide whether a client's application protocol version is compatible
+   * @default strict equality
+   */
+  isCompatibleVersion?: (
+    clientVersion: ProtocolVersion | undefined,
+    workerVersion: ProtocolVersion
+  ) => boolean
+
+  /**
+   * What to do with clients whose versions are incompatible
+   * @default 'warn'
+   */
+  versionMismatchAction?: VersionMismatchAction
+
+  /**
+   * Callback when a client identifies itself with the connect handshake
+   * Not called again when a client with the same ID reconnects on a new port
+   */
+  onClientConnect?: (port: MessagePort, client: ClientSnapshot) => void
+
+  /**
+   * Callback when a client's tab is shown, hidden, frozen or resumed (see
+   * client.lifecycle)
+   */
+  onClientVisibilityChange?: (port: MessagePort, client: ClientSnapshot) => void
+
+  /**
+   * Callback when a client's tab gains or loses focus (see client.focused)
+   */
+  onClientFocusChange?: (port: MessagePort, client: ClientSnapshot) => void
+
+  /**
+   * Callback when the user of a client's tab becomes idle or active again
+   * (see client.userIdle). Only clients created with userIdle report this
+   */
+  onClientUserIdleChange?: (port: MessagePort, client: ClientSnapshot) => void
+
+  /**
+   * Callback when a client is marked stale for not answering pings
+   */
+  onClientStale?: (
+    port: MessagePort,
+    event: StaleEvent,
+    client: ClientSnapshot
+  ) => void
+
+  /**
+   * Callback when a stale client is heard from again
+   */
+  onClientRestore?: (port: MessagePort, client: ClientSnapshot) => void
+
+  /**
+   * Callback when a port is removed, with the reason. Called for every port,
+   * including ones that never identified themselves (client.id is undefined)
+   * or were rejected at the version handshake, but not for the previous port
+   * of a client that reconnects with the same ID
+   */
+  onClientRemove?: (
+    port: MessagePort,
+    client: ClientSnapshot,
+    reason: ClientRemoveReason
+  ) => void
+
+  /**
+   * Callback when a topic gains its first subscriber
+   * Use it to open upstream feeds for the topic
+   */
+  onTopicOpen?: (topic: string) => void
+
+  /**
+   * Callback when a topic loses its last subscriber
+   * Use it to close upstream feeds for the topic
+   */
+  onTopicClose?: (topic: string) => void
+
+  /**
+   * Only tell clients the SharedWorker is ready once ready() is called, for
+   * example after async initialization. Clients created with queueUntilReady
+   * hold their messages and requests until then
+   * @default false (clients are ready as soon as they connect)
+   */
+  deferReady?: boolean
+
+  /**
+   * Callback with a metrics snapshot every metricsInterval
+   */
+  onMetrics?: (metrics: PortManagerMetrics) => void
+
+  /**
+   * Interval between onMetrics calls in milliseconds
+   * @default 10000
+   */
+  metricsInterval?: number
+
+  /**
+   * Callback for internal logging with structured log entries
+   */
+  onLog?: (logEntry: LogEntry) => void
+}
+
+export interface SharedWorkerClientOptions<TMessage = unknown> {
+  /**
+   * Callback for non-internal messages from SharedWorker
+   * Internal messages (prefixed with @shared-worker-utils/) are filtered out
+   */
+  onMessage: (message: TMessage) => void
+
+  /**
+   * Validate messages from the SharedWorker before they reach onMessage
+   * Also types onMessage with the contract's worker messages
+   */
+  contract?: MessageContract<unknown, TMessage>
+
+  /**
+   * Encode every message sent to the SharedWorker and decode every message received
+   * A list of codecs encodes in order and decodes in reverse order
+   * @default undefined (messages are structured-cloned as they are)
+   */
+  codec?: MessageCodec | MessageCodec[]
+
+  /**
+   * Middleware run on every decoded message from the SharedWorker and every
+   * message sent to it, before it is encoded. More can be added with use()
+   * Throwing in outbound middleware rejects a request with the error
+   */
+  middleware?: Array<Middleware<ClientMiddlewareContext>>
+
+  /**
+   * Tell the SharedWorker when one of its messages fails contract validation
+   * @default false
+   */
+  reportInvalidMessages?: boolean
+
+  /**
+   * Callback when the SharedWorker reports that a message from this client
+   * failed its contract validation
+   */
+  onMessageRejected?: (rejection: MessageRejection) => void
+
+  /**
+   * Callback when the SharedWorker starts dropping or queueing this client's
+   * messages for going over its rate limit, or disconnects it for flooding
+   */
+  onRateLimited?: (notice: RateLimitNotice) => void
+
+  /**
+   * Callback for internal logging with structured log entries
+   */
+  onLog?: (logEntry: LogEntry) => void
+
+  /**
+   * Stable client ID sent to the SharedWorker, kept across reconnects
+   * @default crypto.randomUUID()
+   */
+  clientId?: string
+
+  /**
+   * Custom application fields sent to the SharedWorker with the connect handshake
+   */
+  metadata?: Record<string, unknown>
+
+  /**
+   * Application protocol version sent to the SharedWorker with the connect handshake
+   */
+  protocolVersion?: ProtocolVersion
+
+  /**
+   * Callback when the SharedWorker reports incompatible versions
+   * Without this callback the page reloads when the action is 'reload'
+   */
+  onVersionMismatch?: (mismatch: VersionMismatch) => void
+
+  /**
+   * Callback when the SharedWorker announces that it is shutting down
+   * In-flight requests can still complete. The client reconnects (or, without
+   * reconnection, disconnects) once the drain timeout has passed
+   */
+  onShutdown?: (notice: ShutdownNotice) => void
+
+  /**
+   * Callback with the round-trip time and clock offset measured with every
+   * ping from the SharedWorker, once the SharedWorker has timed its pong
+   */
+  onLatency?: (info: LatencyInfo) => void
+
+  /**
+   * Hold a uniquely named Web Lock for the client's lifetime. The browser
+   * releases it when the tab closes or crashes, which the SharedWorker notices
+   * right away instead of waiting for a ping timeout. Without navigator.locks
+   * the SharedWorker relies on heartbeats
+   * @default false
+   */
+  livenessLock?: boolean
+
+  /**
+   * Tell the SharedWorker when the user stops interacting with the tab
+   * @default false
+   */
+  userIdle?: boolean | UserIdleOptions
+
+  /**
+   * Queue messages and requests until the SharedWorker is ready for this
+   * client (see PortManager.ready()). Queued messages are sent in order
+   * @default false (messages are sent right away)
+   */
+  queueUntilReady?: boolean | OutboundQueueOptions
+
+  /**
+   * Default timeout for request() calls in milliseconds
+   * @default undefined (no timeout)
+   */
+  requestTimeout?: number
+
+  /**
+   * Reconnect when the SharedWorker errors or stops sending pings
+   * Only applies when the client is created with a SharedWorker factory function
+   * Pass false to disable
+   * @default true
+   */
+  reconnect?: ReconnectOptions | boolean
+
+  /**
+   * Callback when the connection state changes
+   */
+  onConnectionStateChange?: (state: ConnectionState) => void
+}
+
+/**
+ * The parts of a SharedWorker that SharedWorkerClient uses
+ * Implemented by SharedWorker and by LeaderElection.connect()
+ */
+export interface SharedWorkerLike {
+  readonly port: MessagePort
+  addEventListener(
+    type: 'error',
+    listener: (event: Event) => void,
+    options?: AddEventListenerOptions
+  ): void
+}
+
+/**
+ * A JSON-patch style change to a shared state value
+ * Paths are JSON pointers (RFC 6901), '' being the whole value
+ */
+export type PatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+
+/**
+ * Context passed to SharedStateOptions.validateMutation
+ */
+export interface MutationContext<T> {
+  /**
+   * State before the mutation
+   */
+  previousState: T
+
+  /**
+   * Operations the client sent
+   */
+  patch: PatchOperation[]
+
+  /**
+   * State of the client that sent the mutation
+   */
+  client: ClientState
+}
+
+export interface SharedStateOptions<T> {
+  /**
+   * Name clients use to mirror this state with SharedWorkerClient.getSharedState()
+   */
+  name: string
+
+  /**
+   * Value of the state before the first change
+   */
+  initialState: T
+
+  /**
+   * Accept or reject a mutation sent by a client
+   * Throw to reject with a specific error
+   * @default undefined (clients cannot mutate the state)
+   */
+  validateMutation?: (nextState: T, context: MutationContext<T>) => boolean
+
+  /**
+   * Callback for internal logging with structured log entries
+   */
+  onLog?: (logEntry: LogEntry) => void
+}
+
+/**
+ * A shared state value and the number of changes it has been through
+ */
+export interface StateSnapshot<T = unknown> {
+  version: number
+  state: T
+}
+
+/**
+ * A change a SharedStateMirror asks the SharedState to make
+ */
+export interface StateMutation {
+  /**
+   * Version of the state the patch was computed from
+   */
+  version: number
+  patch: PatchOperation[]
+}
+
+/**
+ * The parts of a WebSocket that UpstreamSocket uses
+ */
+export interface WebSocketLike {
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void
+  close(code?: number, reason?: string): void
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent) => void,
+    options?: AddEventListenerOptions
+  ): void
+  addEventListener(
+    type: 'open' | 'close' | 'error',
+    listener: (event: Event) => void,
+    options?: AddEventListenerOptions
+  ): void
+}
+
+export interface UpstreamReconnectOptions {
+  /**
+   * Delay before the first reconnection attempt in milliseconds
+   * @default 1000
+   */
+  initialDelay?: number
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number
+
+  /**
+   * Factor the delay is multiplied by after each failed attempt
+   * @default 2
+   */
+  backoffMultiplier?: number
+
+  /**
+   * Fraction of each delay that is randomized, so SharedWorkers in many
+   * browsers do not all reconnect at the same moment
+   * @default 0.5
+   */
+  jitter?: number
+
+  /**
+   * Give up and move to 'disconnected' after this many failed attempts
+   * @default Infinity
+   */
+  maxAttempts?: number
+}
+
+export interface UpstreamSocketOptions {
+  /**
+   * URL of the WebSocket server, or a function returning it for each attempt
+   */
+  url: string | (() => string)
+
+  protocols?: string | string[]
+
+  /**
+   * Create the socket
+   * @default (url, protocols) => new WebSocket(url, protocols)
+   */
+  createSocket?: (url: string, protocols?: string | string[]) => WebSocketLike
+
+  /**
+   * Name of the SharedState that mirrors the connection status in every tab
+   * Must be unique among the PortManager's shared states, so each
+   * UpstreamSocket needs its own
+   */
+  name: string
+
+  /**
+   * Milliseconds to stay connected after the last active client goes away
+   * @default 5000
+   */
+  gracePeriod?: number
+
+  reconnect?: UpstreamReconnectOptions
+
+  /**
+   * Turn a message into data for the socket
+   * @default JSON.stringify
+   */
+  serialize?: (
+    message: unknown
+  ) => string | ArrayBufferLike | Blob | ArrayBufferView
+
+  /**
+   * Turn data from the socket into a message
+   * @default JSON.parse for strings, other data is passed on as it is
+   */
+  deserialize?: (data: unknown) => unknown
+
+  /**
+   * Callback for messages from the socket
+   * @default Broadcast every message to connected clients
+   */
+  onMessage?: (message: unknown) => void
+
+  /**
+   * Callback when the connection status changes
+   */
+  onStatusChange?: (status: UpstreamStatus) => void
+
+  /**
+   * Callback for internal logging with structured log entries
+   */
+  onLog?: (logEntry: LogEntry) => void
+}
+
+/**
+ * - 'disconnected': no active clients, or reconnection gave up
+ * - 'connecting': the socket is opening
+ * - 'connected': the socket is open
+ * - 'reconnecting': waiting to retry after the socket closed or failed
+ */
+export type UpstreamState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+
+/**
+ * Connection status of an UpstreamSocket, mirrored in every tab
+ */
+export interface UpstreamStatus {
+  state: UpstreamState
+
+  /**
+   * Reconnection attempts since the socket was last open
    */
-  pingInterval?: number
+  attempts: number
 
   /**
-   * Maximum time to wait for pong response after ping in milliseconds
-   * @default 5000
+   * SharedWorker time of the next attempt, while reconnecting
    */
-  pingTimeout?: number
+  retryAt?: number
+}
 
+export type ElectionStrategy = 'locks' | 'storage'
+
+export interface LeaderElectionOptions {
   /**
-   * Auto-remove stale clients after this many milliseconds
-   * @default undefined (no auto-removal)
+   * Name shared by all tabs of the app
+   * Used for the BroadcastChannel, the Web Lock and the localStorage lease
    */
-  staleClientTimeout?: number
+  name: string
 
   /**
-   * Callback when active or total client count changes
+   * Runs the worker logic while this tab is the leader
+   * The scope dispatches 'connect' events like SharedWorkerGlobalScope
+   * Return a cleanup function to be called when the tab stops being leader
    */
-  onActiveCountChange?: (activeCount: number, totalCount: number) => void
+  start: (scope: EventTarget) => void | (() => void)
 
   /**
-   * Callback for non-internal messages from clients
-   * Internal messages (prefixed with @shared-worker-utils/) are filtered out
+   * How the leader is elected
+   * @default 'locks' when navigator.locks is available, otherwise 'storage'
    */
-  onMessage?: (port: MessagePort, message: TMessage) => void
+  strategy?: ElectionStrategy
+
+  /**
+   * Hand leadership to a visible tab when the leader tab is hidden
+   * @default true
+   */
+  stepDownWhenHidden?: boolean
+
+  /**
+   * How long a localStorage lease is valid without renewal in milliseconds
+   * Only used by the 'storage' strategy
+   * @default 5000
+   */
+  leaseDuration?: number
+
+  /**
+   * Callback when this tab becomes or stops being the leader
+   */
+  onLeadershipChange?: (isLeader: boolean) => void
 
   /**
    * Callback for internal logging with structured log entries
@@ -59,27 +1029,435 @@ export interface PortManagerOptions<TMessage = unknown> {
   onLog?: (logEntry: LogEntry) => void
 }
 
-export interface SharedWorkerClientOptions<TMessage = unknown> {
+export interface ReconnectOptions {
   /**
-   * Callback for non-internal messages from SharedWorker
-   * Internal messages (prefixed with @shared-worker-utils/) are filtered out
+   * Reconnect if no message (including pings) arrives from the SharedWorker
+   * within this many milliseconds. Should be longer than PortManager's pingInterval
+   * @default 30000
    */
-  onMessage: (message: TMessage) => void
+  heartbeatTimeout?: number
 
   /**
-   * Callback for internal logging with structured log entries
+   * Delay before the first reconnection attempt in milliseconds
+   * @default 1000
    */
-  onLog?: (logEntry: LogEntry) => void
+  initialDelay?: number
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number
+
+  /**
+   * Factor the delay is multiplied by after each failed attempt
+   * @default 2
+   */
+  backoffMultiplier?: number
+
+  /**
+   * Give up and move to 'disconnected' after this many failed attempts
+   * @default Infinity
+   */
+  maxAttempts?: number
+}
+
+export type ConnectionState = 'connected' | 'reconnecting' | 'disconnected'
+
+/**
+ * What to do with a message sent while the outbound queue is full
+ * - 'drop-oldest': drop the oldest queued message
+ * - 'drop-newest': drop the new message
+ * - 'throw': send() throws and request() rejects
+ */
+export type QueueOverflow = 'drop-oldest' | 'drop-newest' | 'throw'
+
+export interface OutboundQueueOptions {
+  /**
+   * Maximum number of queued messages
+   * @default 100
+   */
+  limit?: number
+
+  /**
+   * @default 'drop-oldest'
+   */
+  overflow?: QueueOverflow
+}
+
+export interface UserIdleOptions {
+  /**
+   * Milliseconds without user input before the user counts as idle
+   * @default 60000
+   */
+  timeout?: number
+
+  /**
+   * Document events that count as user input
+   * @default ['keydown', 'pointerdown', 'pointermove', 'scroll', 'touchstart', 'wheel']
+   */
+  events?: string[]
+}
+
+export interface ShutdownOptions {
+  /**
+   * Why the SharedWorker is shutting down, passed on to clients
+   */
+  reason?: string
+
+  /**
+   * Maximum time to wait for in-flight request and stream handlers in
+   * milliseconds. Handlers still running afterwards are aborted
+   * @default 5000
+   */
+  drainTimeout?: number
+}
+
+/**
+ * Passed to SharedWorkerClientOptions.onShutdown
+ */
+export interface ShutdownNotice {
+  reason?: string
+
+  /**
+   * Milliseconds until the SharedWorker closes its ports
+   */
+  drainTimeout: number
+}
+
+/**
+ * Passed to SharedWorkerClientOptions.onLatency
+ */
+export interface LatencyInfo {
+  /**
+   * Round-trip time of the last ping in milliseconds, measured by the
+   * SharedWorker. High values point to a busy or throttled tab
+   */
+  latency: number
+
+  /**
+   * Estimated milliseconds the SharedWorker's clock is ahead of this tab's
+   * Subtract it from a SharedWorker timestamp to get local time
+   */
+  clockOffset: number
+}
+
+export interface RequestOptions {
+  /**
+   * Reject the request if no response arrives within this many milliseconds
+   * Overrides the client's requestTimeout option
+   */
+  timeout?: number
+
+  /**
+   * Abort the request (the worker handler's signal is aborted too)
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Context passed to request handlers registered with PortManager.handle()
+ */
+export interface RequestContext {
+  /**
+   * The port the request arrived on
+   */
+  port: MessagePort
+
+  /**
+   * State of the client that sent the request
+   */
+  client: ClientState
+
+  /**
+   * Aborted when the client cancels the request, goes stale or is removed
+   */
+  signal: AbortSignal
+}
+
+export type RequestHandler<TParameters = unknown, TResult = unknown> = (
+  parameters: TParameters,
+  context: RequestContext
+) => TResult | Promise<TResult>
+
+/**
+ * Handler registered with PortManager.handleStream(), usually an async
+ * generator function. Each value it yields is sent to the client as a chunk
+ */
+export type StreamHandler<TParameters = unknown, TChunk = unknown> = (
+  parameters: TParameters,
+  context: RequestContext
+) => AsyncIterable<TChunk> | Iterable<TChunk>
+
+export interface StreamOptions {
+  /**
+   * Cancel the stream (the worker handler's signal is aborted too)
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Error shape sent over the port when a request handler fails
+ */
+export interface SerializedError {
+  name: string
+  message: string
+  stack?: string
 }
 
 export type ClientStatus = 'connected' | 'stale'
 
+/**
+ * Page Lifecycle state of a client's tab. A frozen tab, for example one in
+ * the back/forward cache, runs no code and cannot answer pings
+ */
+export type LifecycleState = 'visible' | 'hidden' | 'frozen'
+
+/**
+ * Metadata a client sends with the connect handshake
+ */
+export interface ClientMetadata {
+  /**
+   * URL of the page the client runs in
+   */
+  url: string
+
+  /**
+   * navigator.userAgent of the client
+   */
+  userAgent: string
+
+  /**
+   * Time the client connected (epoch milliseconds)
+   */
+  connectedAt: number
+
+  /**
+   * Custom application fields from SharedWorkerClientOptions.metadata
+   */
+  custom: Record<string, unknown>
+}
+
+/**
+ * Public snapshot of an identified client
+ */
+export interface ClientInfo {
+  id: string
+  metadata: ClientMetadata
+  visible: boolean
+  lifecycle: LifecycleState
+  focused: boolean
+  userIdle: boolean
+  status: ClientStatus
+  lastSeen: number
+}
+
+/**
+ * Read-only copy of a client's state passed to the PortManager lifecycle
+ * callbacks. id and metadata are missing until the client identifies itself
+ */
+export interface ClientSnapshot {
+  readonly id?: string
+  readonly metadata?: Readonly<ClientMetadata>
+  readonly protocolVersion?: ProtocolVersion
+  readonly visible: boolean
+  readonly lifecycle: LifecycleState
+  readonly focused: boolean
+  readonly userIdle: boolean
+  readonly status: ClientStatus
+  readonly staleReason?: StaleReason
+  readonly lastSeen: number
+  readonly livenessLock?: string
+}
+
+/**
+ * Connection health of a single client
+ * Byte counts are estimates of the data posted and received, after encoding
+ */
+export interface ClientMetrics {
+  id?: string
+  status: ClientStatus
+  visible: boolean
+
+  /**
+   * Milliseconds since the client connected
+   */
+  connectedFor: number
+
+  /**
+   * Round-trip time of the last ping in milliseconds
+   */
+  latency?: number
+
+  /**
+   * Average round-trip time of all pings in milliseconds
+   */
+  averageLatency?: number
+
+  messagesIn: number
+  messagesOut: number
+  bytesIn: number
+  bytesOut: number
+
+  /**
+   * Milliseconds the client has spent visible and hidden
+   */
+  visibleTime: number
+  hiddenTime: number
+
+  /**
+   * Number of times the client was marked stale
+   */
+  staleTransitions: number
+
+  /**
+   * Messages held back while hidden (see hiddenDelivery)
+   */
+  heldMessages: number
+
+  /**
+   * Messages waiting for rate limit tokens (see rateLimit)
+   */
+  queuedMessages: number
+
+  /**
+   * Request and stream handlers still running
+   */
+  pendingRequests: number
+}
+
+/**
+ * Totals over all connected and stale clients
+ */
+export interface AggregateMetrics {
+  clients: number
+  active: number
+  stale: number
+
+  /**
+   * Average of the clients' last ping round-trip times in milliseconds
+   */
+  averageLatency?: number
+
+  messagesIn: number
+  messagesOut: number
+  bytesIn: number
+  bytesOut: number
+  staleTransitions: number
+  heldMessages: number
+  queuedMessages: number
+  pendingRequests: number
+}
+
+export interface PortManagerMetrics {
+  timestamp: number
+  clients: ClientMetrics[]
+  totals: AggregateMetrics
+}
+
+/**
+ * Raw counters behind ClientMetrics
+ */
+export interface ClientCounters {
+  connectedAt: number
+  messagesIn: number
+  messagesOut: number
+  bytesIn: number
+  bytesOut: number
+  staleTransitions: number
+  latency?: number
+  latencySum: number
+  latencySamples: number
+  visibleTime: number
+  hiddenTime: number
+  visibilityChangedAt: number
+  pingSentAt?: number
+}
+
 export interface ClientState {
+  id?: string
+  metadata?: ClientMetadata
+  /**
+   * Application protocol version the client sent with the connect handshake
+   */
+  protocolVersion?: ProtocolVersion
+  /**
+   * Whether the tab is visible, i.e. lifecycle is 'visible'
+   */
   visible: boolean
+  lifecycle: LifecycleState
+  /**
+   * Whether the tab has focus, i.e. the user is interacting with it
+   */
+  focused: boolean
+  /**
+   * When the tab last gained focus
+   */
+  focusedAt?: number
+  /**
+   * Whether the user has not interacted with the tab for a while
+   */
+  userIdle: boolean
   lastSeen: number
   controller: AbortController
   status: ClientStatus
   staleTimestamp?: number
+  staleReason?: StaleReason
+  pendingRequests: Map<number, AbortController>
+  topics: Set<string>
+  /**
+   * Overrides PortManagerOptions.hiddenDelivery for this client
+   */
+  hiddenDelivery?: HiddenDeliveryPolicy
+  /**
+   * Messages held back while the client is hidden, in delivery order
+   */
+  heldMessages: Map<unknown, unknown>
+  /**
+   * Whether the client has been told the SharedWorker is ready for it
+   */
+  ready: boolean
+  counters: ClientCounters
+  /**
+   * Created with the client's first rate-limited message
+   */
+  rateLimit?: RateLimitState
+  /**
+   * Name of the Web Lock the client holds for its lifetime, once the
+   * PortManager waits for it
+   */
+  livenessLock?: string
+}
+
+export interface ConnectMessage {
+  type: '@shared-worker-utils/connect'
+  clientId: string
+  metadata: ClientMetadata
+  libraryVersion?: number
+  protocolVersion?: ProtocolVersion
+}
+
+export interface ConnectAckMessage {
+  type: '@shared-worker-utils/connect-ack'
+  libraryVersion: number
+  protocolVersion?: ProtocolVersion
+  mismatch?: VersionMismatch
+}
+
+export interface MessageRejectedMessage extends MessageRejection {
+  type: '@shared-worker-utils/message-rejected'
+}
+
+export interface RateLimitedMessage extends RateLimitNotice {
+  type: '@shared-worker-utils/rate-limited'
+}
+
+export interface ReadyMessage {
+  type: '@shared-worker-utils/ready'
+}
+
+export interface ShutdownMessage extends ShutdownNotice {
+  type: '@shared-worker-utils/shutdown'
 }
 
 export interface ClientCountMessage {
@@ -90,6 +1468,10 @@ export interface ClientCountMessage {
 
 export interface VisibilityChangeMessage {
   type: '@shared-worker-utils/visibility-change'
+  state: LifecycleState
+  /**
+   * For SharedWorkers that predate state, which see a frozen tab as hidden
+   */
   visible: boolean
 }
 
@@ -97,17 +1479,110 @@ export interface DisconnectMessage {
   type: '@shared-worker-utils/disconnect'
 }
 
+export interface UserActivityMessage {
+  type: '@shared-worker-utils/user-activity'
+  focused: boolean
+  idle: boolean
+}
+
 export interface PingMessage {
   type: '@shared-worker-utils/ping'
+  /**
+   * SharedWorker time when the ping was sent
+   */
+  timestamp: number
 }
 
 export interface PongMessage {
   type: '@shared-worker-utils/pong'
+  /**
+   * Timestamp of the ping being answered
+   */
+  timestamp?: number
+}
+
+/**
+ * Sent in reply to a pong that echoed its ping's timestamp
+ */
+export interface LatencyMessage {
+  type: '@shared-worker-utils/latency'
+  /**
+   * Timestamp of the ping that was answered
+   */
+  timestamp: number
+  /**
+   * Round-trip time of that ping
+   */
+  latency: number
+}
+
+export interface LivenessLockMessage {
+  type: '@shared-worker-utils/liveness-lock'
+  name: string
+}
+
+export interface RequestMessage {
+  type: '@shared-worker-utils/request'
+  id: number
+  method: string
+  params?: unknown
+  stream?: boolean
+}
+
+export type ResponseMessage =
+  | { type: '@shared-worker-utils/response'; id: number; result: unknown }
+  | {
+      type: '@shared-worker-utils/response'
+      id: number
+      error: SerializedError
+    }
+
+export interface StreamChunkMessage {
+  type: '@shared-worker-utils/stream-chunk'
+  id: number
+  chunk: unknown
+}
+
+export interface CancelMessage {
+  type: '@shared-worker-utils/cancel'
+  id: number
+}
+
+export interface SubscribeMessage {
+  type: '@shared-worker-utils/subscribe'
+  topic: string
+}
+
+export interface UnsubscribeMessage {
+  type: '@shared-worker-utils/unsubscribe'
+  topic: string
+}
+
+export interface StatePatchMessage {
+  type: '@shared-worker-utils/state-patch'
+  name: string
+  version: number
+  patch: PatchOperation[]
 }
 
 export type InternalMessage =
+  | ConnectMessage
+  | ConnectAckMessage
   | ClientCountMessage
   | VisibilityChangeMessage
   | DisconnectMessage
+  | UserActivityMessage
   | PingMessage
   | PongMessage
+  | LivenessLockMessage
+  | RequestMessage
+  | ResponseMessage
+  | StreamChunkMessage
+  | CancelMessage
+  | SubscribeMessage
+  | UnsubscribeMessage
+  | MessageRejectedMessage
+  | RateLimitedMessage
+  | ReadyMessage
+  | ShutdownMessage
+  | StatePatchMessage
@@ -0,0 +1,294 @@
+import { ActivityMonitor } from './activity'
+import { getBackoffDelay } from './backoff'
+import type { BackoffOptions } from './backoff'
+import { Logger } from './logger'
+import type { PortManager } from './port-manager'
+import { SharedState } from './shared-state'
+import type {
+  UpstreamSocketOptions,
+  UpstreamState,
+  UpstreamStatus,
+  WebSocketLike,
+} from './types'
+
+type UpstreamPortManager = Pick<
+  PortManager,
+  'broadcast' | 'getActiveCount' | 'handle' | 'publish' | 'watchClientCount'
+>
+
+function defaultDeserialize(data: unknown): unknown {
+  return typeof data === 'string' ? JSON.parse(data) : data
+}
+
+/**
+ * A WebSocket (or similar) connection shared by every tab of a SharedWorker
+ * Connects while the PortManager has active clients, disconnects a grace
+ * period after the last one goes away, and reconnects with jittered
+ * exponential backoff. The connection status is mirrored in every tab as a
+ * SharedState, and subscriptions are replayed after reconnecting
+ */
+export class UpstreamSocket extends Logger {
+  private readonly portManager: UpstreamPortManager
+  private readonly url: UpstreamSocketOptions['url']
+  private readonly protocols?: string | string[]
+  private readonly createSocket: (
+    url: string,
+    protocols?: string | string[]
+  ) => WebSocketLike
+  private readonly backoff: Required<BackoffOptions>
+  private readonly maxAttempts: number
+  private readonly serialize: NonNullable<UpstreamSocketOptions['serialize']>
+  private readonly deserialize: (data: unknown) => unknown
+  private readonly onMessage: (message: unknown) => void
+  private readonly onStatusChange?: (status: UpstreamStatus) => void
+  private readonly statusState: SharedState<UpstreamStatus>
+  private readonly activity: ActivityMonitor
+  private readonly unwatch: () => void
+  private status: UpstreamStatus = { state: 'disconnected', attempts: 0 }
+  private socket?: WebSocketLike
+  private socketController?: AbortController
+  private subscriptions: Map<string, unknown> = new Map()
+  private reconnectTimeoutId?: ReturnType<typeof setTimeout>
+  private destroyed = false
+
+  constructor(
+    portManager: UpstreamPortManager,
+    options: UpstreamSocketOptions
+  ) {
+    super()
+    this.portManager = portManager
+    this.url = options.url
+    this.protocols = options.protocols
+    this.createSocket =
+      options.createSocket ??
+      ((url, protocols) => new WebSocket(url, protocols))
+    this.backoff = {
+      initialDelay: options.reconnect?.initialDelay ?? 1000,
+      maxDelay: options.reconnect?.maxDelay ?? 30_000,
+      backoffMultiplier: options.reconnect?.backoffMultiplier ?? 2,
+      jitter: options.reconnect?.jitter ?? 0.5,
+    }
+    this.maxAttempts = options.reconnect?.maxAttempts ?? Infinity
+    this.serialize = options.serialize ?? JSON.stringify
+    this.deserialize = options.deserialize ?? defaultDeserialize
+    this.onMessage =
+      options.onMessage ?? ((message) => portManager.broadcast(message))
+    this.onStatusChange = options.onStatusChange
+    this.onLog = options.onLog
+
+    this.statusState = new SharedState(portManager, {
+      name: options.name,
+      initialState: this.status,
+      onLog: options.onLog,
+    })
+    const gracePeriod = options.gracePeriod ?? 5000
+    this.activity = new ActivityMonitor({
+      idleDelay: gracePeriod,
+      activeDelay: 0,
+      onIdle: () => {
+        this.log('No active clients for the grace period', 'info', {
+          gracePeriod,
+        })
+        this.disconnect()
+      },
+      onActive: () => this.connect(0),
+    })
+    this.unwatch = portManager.watchClientCount((activeCount) =>
+      this.handleActiveCount(activeCount)
+    )
+    this.handleActiveCount(portManager.getActiveCount())
+  }
+
+  /**
+   * Get the current connection status
+   */
+  getStatus(): UpstreamStatus {
+    return this.status
+  }
+
+  /**
+   * Send a message if the socket is open
+   * @returns false if the message was not sent
+   */
+  send(message: unknown): boolean {
+    if (this.status.state !== 'connected' || !this.socket) return false
+
+    this.socket.send(this.serialize(message))
+    return true
+  }
+
+  /**
+   * Send a subscription message now (if connected) and again every time the
+   * socket reconnects. A later subscription with the same key replaces it
+   */
+  subscribe(key: string, message: unknown): void {
+    this.subscriptions.set(key, message)
+    this.send(message)
+  }
+
+  /**
+   * Stop replaying a subscription
+   * @param message - Sent (if connected) to tell the server, if given
+   */
+  unsubscribe(key: string, message?: unknown): void {
+    if (!this.subscriptions.delete(key)) return
+    if (message !== undefined) this.send(message)
+  }
+
+  /**
+   * Close the socket and stop following the PortManager
+   */
+  destroy(): void {
+    if (this.destroyed) return
+
+    this.unwatch()
+    this.activity.destroy()
+    this.disconnect()
+    this.destroyed = true
+    this.statusState.destroy()
+    this.log('UpstreamSocket destroyed', 'info')
+  }
+
+  protected getLogPrefix(): string {
+    return '[UpstreamSocket]'
+  }
+
+  /**
+   * Connect when clients become active and disconnect once they have been
+   * gone for the grace period
+   */
+  private handleActiveCount(activeCount: number): void {
+    this.activity.update(activeCount)
+
+    // The socket closed during the grace period, or reconnecting gave up
+    if (
+      activeCount > 0 &&
+      !this.activity.isIdle() &&
+      this.status.state === 'disconnected'
+    ) {
+      this.connect(0)
+    }
+  }
+
+  private connect(attempts: number): void {
+    const url = typeof this.url === 'function' ? this.url() : this.url
+    let socket: WebSocketLike
+
+    this.log('Connecting', 'info', { url, attempts })
+    this.setStatus('connecting', attempts)
+
+    try {
+      socket = this.createSocket(url, this.protocols)
+    } catch (error) {
+      this.log('Failed to create socket', 'error', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      this.scheduleReconnect()
+      return
+    }
+
+    this.socket = socket
+    this.socketController = new AbortController()
+    const { signal } = this.socketController
+
+    socket.addEventListener('open', () => this.handleOpen(), { signal })
+    socket.addEventListener('message', (event) => this.handleData(event), {
+      signal,
+    })
+    socket.addEventListener('error', () => this.log('Socket error', 'warn'), {
+      signal,
+    })
+    socket.addEventListener('close', () => this.handleClose(), { signal })
+  }
+
+  private handleOpen(): void {
+    this.log('Connected', 'info', { subscriptions: this.subscriptions.size })
+    this.setStatus('connected', 0)
+
+    for (const message of this.subscriptions.values()) this.send(message)
+  }
+
+  private handleData(event: MessageEvent): void {
+    let message: unknown
+    try {
+      message = this.deserialize(event.data)
+    } catch (error) {
+      this.log('Failed to deserialize message', 'warn', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return
+    }
+
+    this.onMessage(message)
+  }
+
+  private handleClose(): void {
+    this.socketController?.abort()
+    this.socket = undefined
+
+    // Nobody is waiting for the socket during the grace period
+    if (this.portManager.getActiveCount() === 0) {
+      this.log('Socket closed with no active clients', 'info')
+      this.disconnect()
+      return
+    }
+
+    this.log('Socket closed', 'warn')
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect(): void {
+    const { attempts } = this.status
+
+    if (attempts >= this.maxAttempts) {
+      this.log('Giving up reconnecting', 'error', { attempts })
+      this.setStatus('disconnected', attempts)
+      return
+    }
+
+    const delay = getBackoffDelay(attempts, this.backoff)
+    this.log('Reconnecting', 'info', { attempt: attempts + 1, delayMs: delay })
+    this.setStatus('reconnecting', attempts + 1, Date.now() + delay)
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = undefined
+      this.connect(attempts + 1)
+    }, delay)
+  }
+
+  private disconnect(): void {
+    clearTimeout(this.reconnectTimeoutId)
+    this.reconnectTimeoutId = undefined
+
+    if (this.socket) {
+      this.log('Disconnecting', 'info')
+      this.socketController?.abort()
+      this.socket.close()
+      this.socket = undefined
+    }
+
+    this.setStatus('disconnected', 0)
+  }
+
+  private setStatus(
+    state: UpstreamState,
+    attempts: number,
+    retryAt?: number
+  ): void {
+    const { status } = this
+    if (
+      status.state === state &&
+      status.attempts === attempts &&
+      status.retryAt === retryAt
+    ) {
+      return
+    }
+
+    this.status = {
+      state,
+      attempts,
+      ...(retryAt !== undefined && { retryAt }),
+    }
+    if (!this.destroyed) this.statusState.set(this.status)
+    this.onStatusChange?.(this.status)
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ActivityMonitor } from '../src/activity'
+
+describe('ActivityMonitor', () => {
+  let onIdle: ReturnType<typeof vi.fn>
+  let onActive: ReturnType<typeof vi.fn>
+  let monitor: ActivityMonitor
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    onIdle = vi.fn()
+    onActive = vi.fn()
+    monitor = new ActivityMonitor({
+      idleDelay: 1000,
+      activeDelay: 200,
+      onIdle,
+      onActive,
+    })
+  })
+
+  afterEach(() => {
+    monitor.destroy()
+    vi.useRealTimers()
+  })
+
+  it('should become active after activeDelay and idle after idleDelay', () => {
+    expect(monitor.isIdle()).toBe(true)
+
+    monitor.update(1)
+    vi.advanceTimersByTime(199)
+    expect(onActive).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(onActive).toHaveBeenCalledTimes(1)
+    expect(monitor.isIdle()).toBe(false)
+
+    monitor.update(0)
+    vi.advanceTimersByTime(1000)
+    expect(onIdle).toHaveBeenCalledTimes(1)
+    expect(monitor.isIdle()).toBe(true)
+  })
+
+  it('should cancel the transition when clients come back', () => {
+    monitor.update(2)
+    vi.advanceTimersByTime(200)
+
+    monitor.update(0)
+    vi.advanceTimersByTime(900)
+    monitor.update(1)
+    vi.advanceTimersByTime(5000)
+
+    expect(onIdle).not.toHaveBeenCalled()
+    expect(onActive).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not restart the delay while the count keeps changing', () => {
+    monitor.update(1)
+    vi.advanceTimersByTime(100)
+    monitor.update(2)
+    vi.advanceTimersByTime(100)
+
+    expect(onActive).toHaveBeenCalledTimes(1)
+  })
+
+  it('should switch right away with a delay of 0', () => {
+    monitor = new ActivityMonitor({ idleDelay: 0, activeDelay: 0, onIdle })
+
+    monitor.update(1)
+    monitor.update(0)
+
+    expect(onIdle).toHaveBeenCalledTimes(1)
+  })
+})
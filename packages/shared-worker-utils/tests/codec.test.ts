@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest'
+import { CodecPipeline, collectTransferables } from '../src/codec'
+
+// Collects what the pipeline sends or dispatches
+function collect() {
+  const results: unknown[] = []
+  const errors: unknown[] = []
+  return {
+    results,
+    errors,
+    push: (result: unknown) => results.push(result),
+    fail: (error: unknown) => errors.push(error),
+  }
+}
+
+const tag = (name: string) => ({
+  encode: (message: unknown) => `${name}(${String(message)})`,
+  decode: (data: unknown) => String(data).slice(name.length + 1, -1),
+})
+
+describe('CodecPipeline', () => {
+  it('should pass messages through synchronously without codecs', () => {
+    const buffer = new ArrayBuffer(4)
+    const message = { buffer }
+    const { results, push, fail } = collect()
+
+    new CodecPipeline().encode(message, [buffer], push, fail)
+
+    expect(results).toEqual([{ data: message, transfer: [buffer] }])
+  })
+
+  it('should encode in order and decode in reverse order', () => {
+    const pipeline = new CodecPipeline([tag('a'), tag('b')])
+    const { results, push, fail } = collect()
+
+    pipeline.encode('message', [], push, fail)
+    pipeline.decode('b(a(message))', push, fail)
+
+    expect(results).toEqual([
+      { data: 'b(a(message))', transfer: [] },
+      'message',
+    ])
+  })
+
+  it('should transfer ArrayBuffers produced by the codecs', () => {
+    const encoded = new ArrayBuffer(4)
+    const pipeline = new CodecPipeline({
+      encode: () => encoded,
+      decode: (data) => data,
+    })
+    const { results, push, fail } = collect()
+
+    pipeline.encode({ type: 'tick' }, [], push, fail)
+
+    expect(results).toEqual([{ data: encoded, transfer: [encoded] }])
+  })
+
+  it('should not transfer typed arrays produced by the codecs', () => {
+    // Binary codecs often return views into a shared pool
+    const encoded = new Uint8Array(new ArrayBuffer(16), 4, 4)
+    const pipeline = new CodecPipeline({
+      encode: () => encoded,
+      decode: (data) => data,
+    })
+    const { results, push, fail } = collect()
+
+    pipeline.encode({ type: 'tick' }, [], push, fail)
+
+    expect(results).toEqual([{ data: encoded, transfer: [] }])
+  })
+
+  it('should keep messages in order while an async codec is busy', async () => {
+    const delays: Record<string, number> = { first: 20, second: 0 }
+    const pipeline = new CodecPipeline([
+      {
+        encode: (message) =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve(message), delays[String(message)] ?? 0)
+          ),
+        decode: (data) => data,
+      },
+      tag('sync'),
+    ])
+    const { results, push, fail } = collect()
+
+    pipeline.encode('first', [], push, fail)
+    pipeline.encode('second', [], push, fail)
+    pipeline.encode('third', [], push, fail)
+
+    await vi.waitFor(() => expect(results).toHaveLength(3))
+    expect(results.map((result) => (result as { data: string }).data)).toEqual([
+      'sync(first)',
+      'sync(second)',
+      'sync(third)',
+    ])
+  })
+
+  it('should report codec errors and carry on with later messages', async () => {
+    const pipeline = new CodecPipeline({
+      encode: (message) => message,
+      decode: async (data) => {
+        if (data === 'bad') throw new Error('Cannot decode')
+        return data
+      },
+    })
+    const { results, errors, push, fail } = collect()
+
+    pipeline.decode('bad', push, fail)
+    pipeline.decode('good', push, fail)
+
+    await vi.waitFor(() => expect(results).toEqual(['good']))
+    expect(errors).toEqual([new Error('Cannot decode')])
+  })
+})
+
+describe('collectTransferables', () => {
+  it('should find buffers and ports anywhere in a message', () => {
+    const buffer = new ArrayBuffer(8)
+    const view = new Float64Array(2)
+    const { port1 } = new MessageChannel()
+
+    const transferables = collectTransferables({
+      type: 'tiles',
+      tiles: [{ buffer }, { pixels: view }],
+      lookup: new Map([['port', port1]]),
+    })
+
+    expect(transferables).toEqual([buffer, view.buffer, port1])
+    port1.close()
+  })
+
+  it('should list a buffer shared by several views once', () => {
+    const buffer = new ArrayBuffer(8)
+
+    expect(
+      collectTransferables([new Uint8Array(buffer), new Uint8Array(buffer)])
+    ).toEqual([buffer])
+  })
+
+  it('should return an empty list for messages without transferables', () => {
+    expect(collectTransferables({ type: 'tick', price: 1 })).toEqual([])
+    expect(collectTransferables('text')).toEqual([])
+  })
+})
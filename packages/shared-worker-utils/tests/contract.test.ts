@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { defineContract, validateMessage } from '../src/contract'
+
+interface QuoteRequest {
+  type: 'get-quote'
+  symbol: string
+}
+
+function isQuoteRequest(value: unknown): value is QuoteRequest {
+  return typeof (value as QuoteRequest).symbol === 'string'
+}
+
+const contract = defineContract({
+  client: { 'get-quote': isQuoteRequest },
+  worker: {
+    quote: {
+      parse: (value: unknown) => {
+        const { price } = value as { price: unknown }
+        if (typeof price !== 'number') throw new TypeError('price is required')
+        return { type: 'quote' as const, price: Number(price.toFixed(2)) }
+      },
+    },
+  },
+})
+
+describe('validateMessage', () => {
+  it('should accept messages that pass a type guard', () => {
+    const message = { type: 'get-quote', symbol: 'ACME' }
+
+    expect(validateMessage(contract.client, message)).toEqual({
+      valid: true,
+      message,
+    })
+  })
+
+  it('should reject messages that fail a type guard', () => {
+    expect(
+      validateMessage(contract.client, { type: 'get-quote', symbol: 1 })
+    ).toEqual({ valid: false, error: 'Invalid "get-quote" message' })
+  })
+
+  it('should use the value returned by parse()', () => {
+    expect(
+      validateMessage(contract.worker, { type: 'quote', price: 1.234 })
+    ).toEqual({ valid: true, message: { type: 'quote', price: 1.23 } })
+  })
+
+  it('should reject messages when parse() throws', () => {
+    expect(validateMessage(contract.worker, { type: 'quote' })).toEqual({
+      valid: false,
+      error: 'price is required',
+    })
+  })
+
+  it('should reject unknown message types', () => {
+    expect(validateMessage(contract.client, { type: 'toString' })).toEqual({
+      valid: false,
+      error: 'Unknown message type "toString"',
+    })
+  })
+
+  it('should reject messages without a type', () => {
+    expect(validateMessage(contract.client, 'hello')).toEqual({
+      valid: false,
+      error: 'Message has no type',
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { createHeartbeatPolicy, getPingTimeout } from '../src/heartbeat'
+import { createClientCounters } from '../src/metrics'
+import type { ClientState } from '../src/types'
+
+function createClient(visible: boolean, latencies: number[] = []): ClientState {
+  const counters = createClientCounters(0)
+  counters.latencySamples = latencies.length
+  counters.latencySum = latencies.reduce((sum, latency) => sum + latency, 0)
+
+  return {
+    visible,
+    lifecycle: visible ? 'visible' : 'hidden',
+    focused: false,
+    userIdle: false,
+    lastSeen: 0,
+    controller: new AbortController(),
+    status: 'connected',
+    topics: new Set(),
+    heldMessages: new Map(),
+    pendingRequests: new Map(),
+    ready: true,
+    counters,
+  }
+}
+
+describe('createHeartbeatPolicy', () => {
+  it('should give hidden tabs at least a minute by default', () => {
+    expect(createHeartbeatPolicy(5000)).toEqual({
+      visibleTimeout: 5000,
+      hiddenTimeout: 60_000,
+    })
+    expect(createHeartbeatPolicy(90_000).hiddenTimeout).toBe(90_000)
+  })
+
+  it('should fill in adaptive defaults', () => {
+    expect(createHeartbeatPolicy(5000, { adaptive: true }).adaptive).toEqual({
+      latencyMultiplier: 4,
+      maxTimeout: 120_000,
+    })
+  })
+})
+
+describe('getPingTimeout', () => {
+  const policy = createHeartbeatPolicy(5000, { hiddenTimeout: 30_000 })
+
+  it('should use the timeout for the client visibility', () => {
+    expect(getPingTimeout(createClient(true), policy)).toEqual({
+      timeout: 5000,
+      reason: 'ping-timeout',
+    })
+    expect(getPingTimeout(createClient(false), policy)).toEqual({
+      timeout: 30_000,
+      reason: 'hidden-ping-timeout',
+    })
+  })
+
+  it('should ignore latency unless adaptive', () => {
+    expect(getPingTimeout(createClient(true, [4000]), policy).timeout).toBe(
+      5000
+    )
+  })
+
+  it('should stretch the timeout for slow clients up to maxTimeout', () => {
+    const adaptive = createHeartbeatPolicy(5000, {
+      adaptive: { latencyMultiplier: 3, maxTimeout: 20_000 },
+    })
+
+    expect(getPingTimeout(createClient(true, [100]), adaptive).timeout).toBe(
+      5000
+    )
+    expect(
+      getPingTimeout(createClient(true, [2000, 4000]), adaptive).timeout
+    ).toBe(9000)
+    expect(getPingTimeout(createClient(true, [60_000]), adaptive).timeout).toBe(
+      20_000
+    )
+  })
+})
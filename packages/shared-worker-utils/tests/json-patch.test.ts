@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { applyPatch, diff } from '../src/json-patch'
+
+describe('diff', () => {
+  it('should return no operations for equal values', () => {
+    expect(diff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([])
+  })
+
+  it('should describe added, removed and replaced keys', () => {
+    expect(diff({ a: 1, b: 2 }, { b: 3, c: 4 })).toEqual([
+      { op: 'remove', path: '/a' },
+      { op: 'replace', path: '/b', value: 3 },
+      { op: 'add', path: '/c', value: 4 },
+    ])
+  })
+
+  it('should recurse into nested objects and arrays', () => {
+    expect(
+      diff({ user: { tags: ['a', 'b', 'c'] } }, { user: { tags: ['a', 'x'] } })
+    ).toEqual([
+      { op: 'replace', path: '/user/tags/1', value: 'x' },
+      { op: 'remove', path: '/user/tags/2' },
+    ])
+  })
+
+  it('should escape keys containing / and ~', () => {
+    expect(diff({}, { 'a/b~c': 1 })).toEqual([
+      { op: 'add', path: '/a~1b~0c', value: 1 },
+    ])
+  })
+
+  it('should replace the root when the types differ', () => {
+    expect(diff([1], { 0: 1 })).toEqual([
+      { op: 'replace', path: '', value: { 0: 1 } },
+    ])
+  })
+})
+
+describe('applyPatch', () => {
+  it('should turn the previous value into the next one', () => {
+    const previous = { a: 1, list: [1, 2, 3], nested: { keep: true } }
+    const next = { list: [1, 4], nested: { keep: true }, 'a/b': 'x' }
+
+    expect(applyPatch(previous, diff(previous, next))).toEqual(next)
+  })
+
+  it('should not mutate the value and share unchanged branches', () => {
+    const previous = { changed: { count: 1 }, unchanged: { count: 1 } }
+
+    const next = applyPatch(previous, [
+      { op: 'replace', path: '/changed/count', value: 2 },
+    ])
+
+    expect(previous.changed.count).toBe(1)
+    expect(next.changed.count).toBe(2)
+    expect(next.unchanged).toBe(previous.unchanged)
+  })
+
+  it('should insert into arrays and append with -', () => {
+    expect(
+      applyPatch(
+        [1, 3],
+        [
+          { op: 'add', path: '/1', value: 2 },
+          { op: 'add', path: '/-', value: 4 },
+        ]
+      )
+    ).toEqual([1, 2, 3, 4])
+  })
+
+  it('should throw for paths that do not exist', () => {
+    expect(() =>
+      applyPatch({ a: 1 }, [{ op: 'replace', path: '/b/c', value: 1 }])
+    ).toThrow('Cannot replace "/b/c"')
+    expect(() => applyPatch([1], [{ op: 'remove', path: '/3' }])).toThrow(
+      'Cannot remove "/3"'
+    )
+  })
+
+  it('should throw for unknown operations and invalid pointers', () => {
+    expect(() => applyPatch({}, [{ op: 'move', path: '/a' } as never])).toThrow(
+      'Unknown patch operation "move"'
+    )
+    expect(() => applyPatch({}, [{ op: 'add', path: 'a', value: 1 }])).toThrow(
+      'Invalid JSON pointer "a"'
+    )
+  })
+
+  it('should reject pointers into the prototype chain', () => {
+    for (const path of ['/__proto__/polluted', '/a/__proto__', '/__proto__']) {
+      expect(() =>
+        applyPatch({ a: {} }, [{ op: 'add', path, value: true }])
+      ).toThrow(`Unsafe JSON pointer "${path}"`)
+    }
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  it('should patch keys named like Object.prototype members', () => {
+    const previous = { words: { constructor: 1, prototype: 1 } }
+    const next = { words: { constructor: 2, toString: 1 } }
+
+    const result = applyPatch(previous, diff(previous, next))
+
+    expect(result).toEqual(next)
+    expect(Object.getPrototypeOf(result.words)).toBe(Object.prototype)
+    expect(() =>
+      applyPatch({}, [{ op: 'replace', path: '/constructor', value: 1 }])
+    ).toThrow('Cannot replace "/constructor"')
+  })
+})
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { LeaderElection } from '../src/leader-election'
+import { PortManager } from '../src/port-manager'
+import { SharedWorkerClient } from '../src/shared-worker-client'
+import type { LeaderElectionOptions } from '../src/types'
+
+interface LockRequest {
+  callback: () => Promise<void>
+  resolve: () => void
+  reject: (error: unknown) => void
+}
+
+// Minimal in-memory Web Locks implementation (exclusive locks only)
+class MockLockManager {
+  private holders = new Map<string, LockRequest>()
+  private queues = new Map<string, LockRequest[]>()
+
+  request(
+    name: string,
+    options: { steal?: boolean; signal?: AbortSignal },
+    callback: () => Promise<void>
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = { callback, resolve, reject }
+      const queue = this.queues.get(name) ?? []
+      this.queues.set(name, queue)
+
+      if (options.steal) {
+        this.holders
+          .get(name)
+          ?.reject(new DOMException('Lock stolen', 'AbortError'))
+        this.holders.delete(name)
+        this.grant(name, request)
+        return
+      }
+
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(request)
+        if (index !== -1) {
+          queue.splice(index, 1)
+          reject(new DOMException('Aborted', 'AbortError'))
+        }
+      })
+      queue.push(request)
+      this.next(name)
+    })
+  }
+
+  private next(name: string) {
+    if (this.holders.has(name)) return
+    const request = this.queues.get(name)?.shift()
+    if (request) this.grant(name, request)
+  }
+
+  private grant(name: string, request: LockRequest) {
+    this.holders.set(name, request)
+    request.callback().then(() => {
+      if (this.holders.get(name) === request) {
+        this.holders.delete(name)
+        this.next(name)
+      }
+      request.resolve()
+    })
+  }
+}
+
+describe('LeaderElection', () => {
+  let elections: LeaderElection[]
+  let clients: SharedWorkerClient[]
+
+  // Runs a PortManager inside the leader, like a SharedWorker script would
+  function createElection(options: Partial<LeaderElectionOptions> = {}) {
+    const start = vi.fn((scope: EventTarget) => {
+      const portManager = new PortManager()
+      portManager.handle('whoAmI', () => elections.indexOf(election))
+      scope.addEventListener('connect', (event) => {
+        portManager.handleConnect((event as MessageEvent).ports[0])
+      })
+      return () => portManager.destroy()
+    })
+    const election: LeaderElection = new LeaderElection({
+      name: 'test',
+      start,
+      ...options,
+    })
+    elections.push(election)
+    return { election, start }
+  }
+
+  function createClient(election: LeaderElection) {
+    const client = new SharedWorkerClient(() => election.connect(), {
+      onMessage: vi.fn(),
+      reconnect: { initialDelay: 10 },
+    })
+    clients.push(client)
+    return client
+  }
+
+  beforeEach(() => {
+    elections = []
+    clients = []
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    for (const client of clients) client.destroy()
+    for (const election of elections) election.destroy()
+  })
+
+  describe('storage strategy', () => {
+    const options = { strategy: 'storage', leaseDuration: 200 } as const
+
+    it('should elect a single leader that runs the worker logic', async () => {
+      const first = createElection(options)
+      await vi.waitFor(() => expect(first.election.isLeader()).toBe(true))
+
+      const second = createElection(options)
+      await new Promise((resolve) => setTimeout(resolve, 150))
+
+      expect(first.start).toHaveBeenCalledTimes(1)
+      expect(second.start).not.toHaveBeenCalled()
+      expect(second.election.isLeader()).toBe(false)
+    })
+
+    it('should route requests from follower tabs to the leader', async () => {
+      const first = createElection(options)
+      await vi.waitFor(() => expect(first.election.isLeader()).toBe(true))
+      const second = createElection(options)
+
+      const leaderClient = createClient(first.election)
+      const followerClient = createClient(second.election)
+
+      await expect(leaderClient.request('whoAmI')).resolves.toBe(0)
+      await expect(followerClient.request('whoAmI')).resolves.toBe(0)
+    })
+
+    it('should release the leader side of closed follower connections', async () => {
+      const first = createElection(options)
+      await vi.waitFor(() => expect(first.election.isLeader()).toBe(true))
+      const second = createElection(options)
+      const third = createElection(options)
+      const remoteConnections = (
+        first.election as unknown as { remoteConnections: Map<string, unknown> }
+      ).remoteConnections
+
+      const followerClient = createClient(second.election)
+      await expect(followerClient.request('whoAmI')).resolves.toBe(0)
+      await expect(
+        createClient(third.election).request('whoAmI')
+      ).resolves.toBe(0)
+      expect(remoteConnections.size).toBe(2)
+
+      followerClient.destroy()
+      await vi.waitFor(() => expect(remoteConnections.size).toBe(1))
+
+      third.election.destroy()
+      await vi.waitFor(() => expect(remoteConnections.size).toBe(0))
+    })
+
+    it('should fail over when the leader tab closes', async () => {
+      const onLeadershipChange = vi.fn()
+      const first = createElection(options)
+      await vi.waitFor(() => expect(first.election.isLeader()).toBe(true))
+      const second = createElection({ ...options, onLeadershipChange })
+
+      const followerClient = createClient(second.election)
+      await expect(followerClient.request('whoAmI')).resolves.toBe(0)
+
+      first.election.destroy()
+
+      await vi.waitFor(() => expect(second.election.isLeader()).toBe(true))
+      expect(onLeadershipChange).toHaveBeenCalledWith(true)
+      expect(second.start).toHaveBeenCalledTimes(1)
+
+      await vi.waitFor(() =>
+        expect(followerClient.getConnectionState()).toBe('connected')
+      )
+      await expect(followerClient.request('whoAmI')).resolves.toBe(1)
+    })
+  })
+
+  describe('locks strategy', () => {
+    beforeEach(() => {
+      Object.defineProperty(navigator, 'locks', {
+        value: new MockLockManager(),
+        configurable: true,
+      })
+    })
+
+    afterEach(() => {
+      delete (navigator as { locks?: unknown }).locks
+    })
+
+    it('should default to Web Locks when available', async () => {
+      const first = createElection()
+      const second = createElection()
+
+      await vi.waitFor(() => expect(first.election.isLeader()).toBe(true))
+      expect(second.election.isLeader()).toBe(false)
+      expect(localStorage.length).toBe(0)
+    })
+
+    it('should hand the lock to the next tab when the leader closes', async () => {
+      const first = createElection()
+      await vi.waitFor(() => expect(first.election.isLeader()).toBe(true))
+      const second = createElection()
+
+      const followerClient = createClient(second.election)
+      await expect(followerClient.request('whoAmI')).resolves.toBe(0)
+
+      first.election.destroy()
+
+      await vi.waitFor(() => expect(second.election.isLeader()).toBe(true))
+      await vi.waitFor(() =>
+        expect(followerClient.getConnectionState()).toBe('connected')
+      )
+      await expect(followerClient.request('whoAmI')).resolves.toBe(1)
+    })
+
+    it('should hand leadership to a visible tab when the leader is hidden', async () => {
+      const first = createElection()
+      await vi.waitFor(() => expect(first.election.isLeader()).toBe(true))
+      const second = createElection()
+      await new Promise((resolve) => setTimeout(resolve, 20))
+
+      // Only the leader tab is hidden
+      vi.spyOn(
+        first.election as unknown as { isVisible: () => boolean },
+        'isVisible'
+      ).mockReturnValue(false)
+      document.dispatchEvent(new Event('visibilitychange'))
+
+      await vi.waitFor(() => expect(second.election.isLeader()).toBe(true))
+      expect(first.election.isLeader()).toBe(false)
+    })
+
+    it('should leave the election while in the back/forward cache', async () => {
+      const onLeadershipChange = vi.fn()
+      const { election, start } = createElection({ onLeadershipChange })
+      await vi.waitFor(() => expect(election.isLeader()).toBe(true))
+
+      globalThis.dispatchEvent(
+        new PageTransitionEvent('pagehide', { persisted: true })
+      )
+      expect(election.isLeader()).toBe(false)
+      expect(onLeadershipChange).toHaveBeenLastCalledWith(false)
+
+      globalThis.dispatchEvent(
+        new PageTransitionEvent('pageshow', { persisted: true })
+      )
+      await vi.waitFor(() => expect(election.isLeader()).toBe(true))
+      expect(start).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createClientCounters,
+  estimateSize,
+  getAggregateMetrics,
+  getClientMetrics,
+  recordPong,
+  recordVisibility,
+} from '../src/metrics'
+import type { ClientState } from '../src/types'
+
+function createClient(overrides: Partial<ClientState> = {}): ClientState {
+  return {
+    visible: true,
+    lifecycle: 'visible',
+    focused: false,
+    userIdle: false,
+    lastSeen: 0,
+    controller: new AbortController(),
+    status: 'connected',
+    topics: new Set(),
+    heldMessages: new Map(),
+    pendingRequests: new Map(),
+    ready: true,
+    counters: createClientCounters(0),
+    ...overrides,
+  }
+}
+
+describe('estimateSize', () => {
+  it('should count strings, numbers and binary data', () => {
+    expect(estimateSize('hello')).toBe(5)
+    expect(estimateSize(42)).toBe(8)
+    expect(estimateSize(new ArrayBuffer(16))).toBe(16)
+    expect(estimateSize(new Uint8Array(4))).toBe(4)
+  })
+
+  it('should add up keys and values of nested objects', () => {
+    expect(estimateSize({ type: 'chat', data: ['hi', 1] })).toBe(
+      'type'.length + 'chat'.length + 'data'.length + 2 + 8
+    )
+  })
+
+  it('should count repeated and circular references once', () => {
+    const shared = { text: 'abc' }
+    const circular: Record<string, unknown> = { a: shared, b: shared }
+    circular.self = circular
+
+    expect(estimateSize(circular)).toBe(
+      'a'.length + 7 + 'b'.length + 'self'.length
+    )
+  })
+})
+
+describe('client metrics', () => {
+  it('should measure latency from ping to pong', () => {
+    const counters = createClientCounters(0)
+
+    recordPong(counters, undefined, 50)
+    expect(counters.latency).toBeUndefined()
+
+    recordPong(counters, 100, 140)
+    counters.pingSentAt = 200
+    recordPong(counters, undefined, 220)
+
+    const metrics = getClientMetrics(createClient({ counters }), 300)
+    expect(metrics.latency).toBe(20)
+    expect(metrics.averageLatency).toBe(30)
+  })
+
+  it('should split time between visible and hidden', () => {
+    const counters = createClientCounters(0)
+    recordVisibility(counters, true, 1000)
+
+    const metrics = getClientMetrics(
+      createClient({ counters, visible: false }),
+      1500
+    )
+
+    expect(metrics.visibleTime).toBe(1000)
+    expect(metrics.hiddenTime).toBe(500)
+    expect(metrics.connectedFor).toBe(1500)
+  })
+})
+
+describe('getAggregateMetrics', () => {
+  it('should count clients by status and sum their counters', () => {
+    const counters = createClientCounters(0)
+    counters.messagesIn = 3
+    recordPong(counters, 0, 40)
+    const clients = [
+      getClientMetrics(createClient({ counters }), 100),
+      getClientMetrics(createClient({ visible: false }), 100),
+      getClientMetrics(createClient({ status: 'stale' }), 100),
+    ]
+
+    const totals = getAggregateMetrics(clients)
+
+    expect(totals).toMatchObject({
+      clients: 3,
+      active: 1,
+      stale: 1,
+      messagesIn: 3,
+      averageLatency: 40,
+    })
+  })
+
+  it('should leave out the average latency without samples', () => {
+    expect(getAggregateMetrics([]).averageLatency).toBeUndefined()
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MiddlewareChain } from '../src/middleware'
+import type { ClientMiddlewareContext, Middleware } from '../src/types'
+
+function inbound(message: unknown): ClientMiddlewareContext {
+  return { direction: 'inbound', message, internal: false }
+}
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+describe('MiddlewareChain', () => {
+  it('should run done() synchronously without middleware', () => {
+    const done = vi.fn()
+
+    new MiddlewareChain().run(inbound('hello'), done, vi.fn())
+
+    expect(done).toHaveBeenCalledWith(inbound('hello'))
+  })
+
+  it('should run middleware in order around done()', () => {
+    const calls: string[] = []
+    const trace =
+      (name: string): Middleware<ClientMiddlewareContext> =>
+      (_context, next) => {
+        calls.push(`${name} before`)
+        next()
+        calls.push(`${name} after`)
+      }
+    const chain = new MiddlewareChain([trace('a'), trace('b')])
+
+    chain.run(inbound('hello'), () => calls.push('done'), vi.fn())
+
+    expect(calls).toEqual([
+      'a before',
+      'b before',
+      'done',
+      'b after',
+      'a after',
+    ])
+  })
+
+  it('should stop the message when a middleware does not call next()', () => {
+    const done = vi.fn()
+    const chain = new MiddlewareChain<ClientMiddlewareContext>([
+      () => {
+        // Short-circuit
+      },
+    ])
+
+    chain.run(inbound('hello'), done, vi.fn())
+
+    expect(done).not.toHaveBeenCalled()
+  })
+
+  it('should pass a rewritten message on', () => {
+    const done = vi.fn()
+    const chain = new MiddlewareChain<ClientMiddlewareContext>([
+      (context, next) => {
+        context.message = { wrapped: context.message }
+        next()
+      },
+    ])
+
+    chain.run(inbound('hello'), done, vi.fn())
+
+    expect(done).toHaveBeenCalledWith(inbound({ wrapped: 'hello' }))
+  })
+
+  it('should keep messages in order while async middleware is busy', async () => {
+    const delivered: unknown[] = []
+    const chain = new MiddlewareChain<ClientMiddlewareContext>([
+      async (context, next) => {
+        if (context.message === 'first') await delay(20)
+        await next()
+      },
+    ])
+
+    for (const message of ['first', 'second', 'third']) {
+      chain.run(
+        inbound(message),
+        (context) => delivered.push(context.message),
+        vi.fn()
+      )
+    }
+
+    await vi.waitFor(() => expect(delivered).toHaveLength(3))
+    expect(delivered).toEqual(['first', 'second', 'third'])
+  })
+
+  it('should report middleware errors and carry on with later messages', async () => {
+    const done = vi.fn()
+    const onError = vi.fn()
+    const chain = new MiddlewareChain<ClientMiddlewareContext>([
+      async (context, next) => {
+        if (context.message === 'bad') throw new Error('Forbidden')
+        await next()
+      },
+    ])
+
+    chain.run(inbound('bad'), done, onError)
+    chain.run(inbound('good'), done, onError)
+
+    await vi.waitFor(() => expect(done).toHaveBeenCalledTimes(1))
+    expect(done).toHaveBeenCalledWith(inbound('good'))
+    expect(onError).toHaveBeenCalledWith(new Error('Forbidden'), inbound('bad'))
+  })
+
+  it('should reject calling next() twice', () => {
+    const onError = vi.fn()
+    const chain = new MiddlewareChain<ClientMiddlewareContext>([
+      (_context, next) => {
+        next()
+        next()
+      },
+    ])
+
+    chain.run(inbound('hello'), vi.fn(), onError)
+
+    expect(onError).toHaveBeenCalledWith(
+      new Error('next() called multiple times'),
+      inbound('hello')
+    )
+  })
+
+  it('should remove middleware with the function returned by use()', () => {
+    const middleware = vi.fn()
+    const chain = new MiddlewareChain<ClientMiddlewareContext>()
+    const remove = chain.use(middleware)
+
+    remove()
+    chain.run(inbound('hello'), vi.fn(), vi.fn())
+
+    expect(middleware).not.toHaveBeenCalled()
+    expect(chain.isActive()).toBe(false)
+  })
+})
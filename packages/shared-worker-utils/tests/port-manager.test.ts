@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { defineContract } from '../src/contract'
 import { PortManager } from '../src/port-manager'
+import type { PingMessage } from '../src/types'
 
 // Test message type
 interface TestMessage {
@@ -50,6 +52,129 @@ class MockMessagePort {
   }
 }
 
+// Web Locks where each lock is held by a tab until the test releases it
+class MockLockManager {
+  private waiting = new Map<string, () => void>()
+
+  request(
+    name: string,
+    options: { signal?: AbortSignal },
+    callback: () => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.waiting.set(name, () => {
+        callback()
+        resolve()
+      })
+      options.signal?.addEventListener('abort', () => {
+        this.waiting.delete(name)
+        reject(new DOMException('Aborted', 'AbortError'))
+      })
+    })
+  }
+
+  isWaiting(name: string) {
+    return this.waiting.has(name)
+  }
+
+  // Test helper to simulate the tab holding the lock closing
+  release(name: string) {
+    const grant = this.waiting.get(name)
+    this.waiting.delete(name)
+    grant?.()
+  }
+}
+
+// Let pending promise callbacks (e.g. async request handlers) run
+async function flushMicrotasks() {
+  for (let index = 0; index < 5; index++) {
+    await Promise.resolve()
+  }
+}
+
+// Connect a port and report its tab as hidden
+function connectHidden(portManager: PortManager<TestMessage>) {
+  const port = new MockMessagePort()
+  portManager.handleConnect(port as unknown as MessagePort)
+  port.simulateMessage({
+    type: '@shared-worker-utils/visibility-change',
+    visible: false,
+  })
+  return port
+}
+
+// Report a tab as shown or hidden
+function setVisible(port: MockMessagePort, visible: boolean) {
+  port.simulateMessage({
+    type: '@shared-worker-utils/visibility-change',
+    visible,
+  })
+}
+
+// Application messages sent through a spied postMessage
+function sentMessages(postMessage: { mock: { calls: unknown[][] } }) {
+  return postMessage.mock.calls
+    .map(([message]) => message)
+    .filter(
+      (message) =>
+        (message as { type?: string }).type !==
+        '@shared-worker-utils/client-count'
+    )
+}
+
+// Send the connect handshake from a port
+function identifyPort(port: MockMessagePort, clientId: string) {
+  port.simulateMessage({
+    type: '@shared-worker-utils/connect',
+    clientId,
+    metadata: {
+      url: 'https://example.com/',
+      userAgent: 'test',
+      connectedAt: 1000,
+      custom: {},
+    },
+    libraryVersion: 1,
+  })
+}
+
+// Answer a ping from a port
+function pong(port: MockMessagePort) {
+  port.simulateMessage({ type: '@shared-worker-utils/pong' })
+}
+
+// Answer a ping from a port, echoing its timestamp
+function pongTo(port: MockMessagePort, ping: PingMessage) {
+  port.simulateMessage({
+    type: '@shared-worker-utils/pong',
+    timestamp: ping.timestamp,
+  })
+}
+
+// Tell the PortManager which liveness lock a port's tab holds
+function holdLock(port: MockMessagePort, name: string) {
+  port.simulateMessage({ type: '@shared-worker-utils/liveness-lock', name })
+}
+
+// Report a tab's focus and user idle state
+function reportActivity(port: MockMessagePort, focused: boolean, idle = false) {
+  port.simulateMessage({
+    type: '@shared-worker-utils/user-activity',
+    focused,
+    idle,
+  })
+}
+
+// Open the 'history' stream on a port
+function openStream(port: MockMessagePort, id = 1) {
+  port.simulateMessage({
+    type: '@shared-worker-utils/request',
+    id,
+    method: 'history',
+    params: { pages: 3 },
+    stream: true,
+  })
+}
+
 describe('PortManager', () => {
   let portManager: PortManager<TestMessage>
   let mockPort: MockMessagePort
@@ -158,6 +283,7 @@ describe('PortManager', () => {
 
     expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
       type: '@shared-worker-utils/ping',
+      timestamp: Date.now(),
     })
     expect(onLog).toHaveBeenCalledWith({
       message: '[PortManager] Sending ping to client',
@@ -539,6 +665,2013 @@ describe('PortManager', () => {
     expect(portManager.getStaleCount()).toBe(0)
   })
 
+  describe('request handlers', () => {
+    it('should reply to requests with the handler result', async () => {
+      portManager = new PortManager()
+      const handler = vi.fn(async (parameters: { symbol: string }) => ({
+        symbol: parameters.symbol,
+        price: 42,
+      }))
+      portManager.handle('getQuote', handler)
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'getQuote',
+        params: { symbol: 'ACME' },
+      })
+      await flushMicrotasks()
+
+      expect(handler).toHaveBeenCalledWith(
+        { symbol: 'ACME' },
+        expect.objectContaining({ port: mockPort })
+      )
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 1,
+        result: { symbol: 'ACME', price: 42 },
+      })
+    })
+
+    it('should not pass requests to onMessage', async () => {
+      const onMessage = vi.fn()
+      portManager = new PortManager({ onMessage })
+      portManager.handle('getQuote', () => 1)
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'getQuote',
+      })
+      await flushMicrotasks()
+
+      expect(onMessage).not.toHaveBeenCalled()
+    })
+
+    it('should reply with a serialized error when the handler throws', async () => {
+      const onLog = vi.fn()
+      portManager = new PortManager({ onLog })
+      portManager.handle('getQuote', () => {
+        throw new TypeError('Unknown symbol')
+      })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 7,
+        method: 'getQuote',
+      })
+      await flushMicrotasks()
+
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 7,
+        error: expect.objectContaining({
+          name: 'TypeError',
+          message: 'Unknown symbol',
+        }),
+      })
+      expect(onLog).toHaveBeenCalledWith({
+        message: '[PortManager] Request handler failed',
+        level: 'error',
+        context: { method: 'getQuote', error: 'Unknown symbol' },
+      })
+    })
+
+    it('should reply with an error for unknown methods', () => {
+      portManager = new PortManager()
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'missing',
+      })
+
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 1,
+        error: expect.objectContaining({
+          message: 'No handler registered for method "missing"',
+        }),
+      })
+    })
+
+    it('should stop handling requests after unregistering', () => {
+      portManager = new PortManager()
+      const unregister = portManager.handle('getQuote', () => 1)
+      unregister()
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'getQuote',
+      })
+
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual(
+        expect.objectContaining({ error: expect.any(Object) })
+      )
+    })
+
+    it('should abort the handler signal when the client cancels', async () => {
+      portManager = new PortManager()
+      let signal: AbortSignal | undefined
+      portManager.handle('slow', (_parameters, context) => {
+        signal = context.signal
+        return new Promise(() => {})
+      })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'slow',
+      })
+      mockPort.simulateMessage({ type: '@shared-worker-utils/cancel', id: 1 })
+
+      expect(signal?.aborted).toBe(true)
+    })
+
+    it('should reject in-flight requests when the client goes stale', () => {
+      const pingInterval = 5000
+      const pingTimeout = 2000
+      portManager = new PortManager({ pingInterval, pingTimeout })
+      let signal: AbortSignal | undefined
+      portManager.handle('slow', (_parameters, context) => {
+        signal = context.signal
+        return new Promise(() => {})
+      })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 3,
+        method: 'slow',
+      })
+
+      vi.advanceTimersByTime(pingInterval)
+      vi.advanceTimersByTime(pingTimeout + pingInterval)
+
+      expect(signal?.aborted).toBe(true)
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 3,
+        error: expect.objectContaining({ message: 'Client marked as stale' }),
+      })
+    })
+
+    it('should reject in-flight requests on destroy', () => {
+      portManager = new PortManager()
+      portManager.handle('slow', () => new Promise(() => {}))
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 4,
+        method: 'slow',
+      })
+      portManager.destroy()
+
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 4,
+        error: expect.objectContaining({ message: 'Client removed' }),
+      })
+    })
+  })
+
+  describe('stream handlers', () => {
+    it('should send each yielded chunk and end with an empty response', async () => {
+      portManager = new PortManager()
+      portManager.handleStream(
+        'history',
+        async function* (parameters: { pages: number }) {
+          for (let page = 1; page <= parameters.pages; page++) yield { page }
+        }
+      )
+
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      openStream(mockPort)
+      await flushMicrotasks()
+      await flushMicrotasks()
+
+      expect(sentMessages(postMessage)).toEqual([
+        {
+          type: '@shared-worker-utils/stream-chunk',
+          id: 1,
+          chunk: { page: 1 },
+        },
+        {
+          type: '@shared-worker-utils/stream-chunk',
+          id: 1,
+          chunk: { page: 2 },
+        },
+        {
+          type: '@shared-worker-utils/stream-chunk',
+          id: 1,
+          chunk: { page: 3 },
+        },
+        { type: '@shared-worker-utils/response', id: 1, result: undefined },
+      ])
+    })
+
+    it('should end the stream with an error when the handler throws', async () => {
+      portManager = new PortManager()
+      portManager.handleStream('history', function* () {
+        yield 1
+        throw new RangeError('Page out of range')
+      })
+
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      openStream(mockPort)
+      await flushMicrotasks()
+      await flushMicrotasks()
+
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 1,
+        error: expect.objectContaining({
+          name: 'RangeError',
+          message: 'Page out of range',
+        }),
+      })
+    })
+
+    it('should stop the handler when the client cancels', async () => {
+      let release: (() => void) | undefined
+      const cleanup = vi.fn()
+      portManager = new PortManager()
+      portManager.handleStream('history', async function* () {
+        try {
+          yield 1
+          await new Promise<void>((resolve) => {
+            release = resolve
+          })
+          yield 2
+        } finally {
+          cleanup()
+        }
+      })
+
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      openStream(mockPort)
+      await flushMicrotasks()
+      mockPort.simulateMessage({ type: '@shared-worker-utils/cancel', id: 1 })
+      release?.()
+      await flushMicrotasks()
+      await flushMicrotasks()
+
+      expect(cleanup).toHaveBeenCalled()
+      expect(sentMessages(postMessage)).toEqual([
+        { type: '@shared-worker-utils/stream-chunk', id: 1, chunk: 1 },
+      ])
+    })
+
+    it('should end the stream with an error when the client goes stale', async () => {
+      let signal: AbortSignal | undefined
+      portManager = new PortManager({ pingInterval: 1000, pingTimeout: 500 })
+      portManager.handleStream(
+        'history',
+        async function* (_parameters, context) {
+          signal = context.signal
+          yield 1
+          await new Promise(() => {})
+        }
+      )
+
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      openStream(mockPort)
+      await flushMicrotasks()
+
+      vi.advanceTimersByTime(2000)
+
+      expect(signal?.aborted).toBe(true)
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 1,
+        error: expect.objectContaining({ message: 'Client marked as stale' }),
+      })
+    })
+
+    it('should reply with an error for unknown stream methods', () => {
+      portManager = new PortManager()
+      portManager.handle('history', () => [])
+
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      openStream(mockPort)
+
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/response',
+        id: 1,
+        error: expect.objectContaining({
+          message: 'No stream handler registered for method "history"',
+        }),
+      })
+    })
+  })
+
+  describe('topics', () => {
+    it('should publish only to subscribed clients', () => {
+      portManager = new PortManager()
+
+      const port1 = new MockMessagePort() as unknown as MessagePort
+      const port2 = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(port1)
+      portManager.handleConnect(port2)
+      ;(port1 as unknown as MockMessagePort).simulateMessage({
+        type: '@shared-worker-utils/subscribe',
+        topic: 'ACME',
+      })
+      ;(port1 as unknown as MockMessagePort).lastMessage = undefined
+      ;(port2 as unknown as MockMessagePort).lastMessage = undefined
+
+      const message = { type: 'stock-update', symbol: 'ACME' }
+      portManager.publish('ACME', message)
+
+      expect((port1 as unknown as MockMessagePort).lastMessage).toEqual(message)
+      expect((port2 as unknown as MockMessagePort).lastMessage).toBeUndefined()
+    })
+
+    it('should call onTopicOpen for the first subscriber only', () => {
+      const onTopicOpen = vi.fn()
+      portManager = new PortManager({ onTopicOpen })
+
+      const port1 = new MockMessagePort() as unknown as MessagePort
+      const port2 = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(port1)
+      portManager.handleConnect(port2)
+
+      for (const port of [port1, port2]) {
+        ;(port as unknown as MockMessagePort).simulateMessage({
+          type: '@shared-worker-utils/subscribe',
+          topic: 'ACME',
+        })
+      }
+
+      expect(onTopicOpen).toHaveBeenCalledTimes(1)
+      expect(onTopicOpen).toHaveBeenCalledWith('ACME')
+      expect(portManager.getSubscriberCount('ACME')).toBe(2)
+      expect(portManager.getTopics()).toEqual(['ACME'])
+    })
+
+    it('should call onTopicClose when the last subscriber unsubscribes', () => {
+      const onTopicClose = vi.fn()
+      portManager = new PortManager({ onTopicClose })
+
+      const port1 = new MockMessagePort() as unknown as MessagePort
+      const port2 = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(port1)
+      portManager.handleConnect(port2)
+
+      for (const port of [port1, port2]) {
+        ;(port as unknown as MockMessagePort).simulateMessage({
+          type: '@shared-worker-utils/subscribe',
+          topic: 'ACME',
+        })
+      }
+
+      ;(port1 as unknown as MockMessagePort).simulateMessage({
+        type: '@shared-worker-utils/unsubscribe',
+        topic: 'ACME',
+      })
+      expect(onTopicClose).not.toHaveBeenCalled()
+      ;(port2 as unknown as MockMessagePort).simulateMessage({
+        type: '@shared-worker-utils/unsubscribe',
+        topic: 'ACME',
+      })
+      expect(onTopicClose).toHaveBeenCalledWith('ACME')
+      expect(portManager.getSubscriberCount('ACME')).toBe(0)
+      expect(portManager.getTopics()).toEqual([])
+    })
+
+    it('should release subscriptions when a client disconnects', () => {
+      const onTopicClose = vi.fn()
+      portManager = new PortManager({ onTopicClose })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/subscribe',
+        topic: 'ACME',
+      })
+      mockPort.simulateMessage({ type: '@shared-worker-utils/disconnect' })
+
+      expect(onTopicClose).toHaveBeenCalledWith('ACME')
+    })
+
+    it('should ignore duplicate subscriptions from the same client', () => {
+      const onTopicClose = vi.fn()
+      portManager = new PortManager({ onTopicClose })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/subscribe',
+        topic: 'ACME',
+      })
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/subscribe',
+        topic: 'ACME',
+      })
+      expect(portManager.getSubscriberCount('ACME')).toBe(1)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/unsubscribe',
+        topic: 'ACME',
+      })
+      expect(onTopicClose).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('client identity', () => {
+    const metadata = {
+      url: 'https://example.com/',
+      userAgent: 'test',
+      connectedAt: 1000,
+      custom: { userId: 42 },
+    }
+
+    function identify(port: MessagePort, clientId: string) {
+      ;(port as unknown as MockMessagePort).simulateMessage({
+        type: '@shared-worker-utils/connect',
+        clientId,
+        metadata,
+        libraryVersion: 1,
+      })
+    }
+
+    it('should register clients that send the connect handshake', () => {
+      const onClientConnect = vi.fn()
+      portManager = new PortManager({ onClientConnect })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      identify(mockPort as unknown as MessagePort, 'tab-1')
+
+      const expected = {
+        id: 'tab-1',
+        metadata,
+        visible: true,
+        lifecycle: 'visible',
+        focused: false,
+        userIdle: false,
+        status: 'connected',
+        lastSeen: expect.any(Number),
+      }
+      expect(onClientConnect).toHaveBeenCalledWith(
+        mockPort,
+        expect.objectContaining({ id: 'tab-1', metadata })
+      )
+      expect(portManager.getClients()).toEqual([expected])
+      expect(portManager.getClient('tab-1')).toEqual(expected)
+      expect(portManager.getClient('missing')).toBeUndefined()
+    })
+
+    it('should send messages to a single client by ID', () => {
+      portManager = new PortManager()
+
+      const port1 = new MockMessagePort() as unknown as MessagePort
+      const port2 = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(port1)
+      portManager.handleConnect(port2)
+      identify(port1, 'tab-1')
+      identify(port2, 'tab-2')
+
+      const message = { type: 'direct' }
+      expect(portManager.sendTo('tab-2', message)).toBe(true)
+      expect(portManager.sendTo('missing', message)).toBe(false)
+
+      expect((port2 as unknown as MockMessagePort).lastMessage).toEqual(message)
+      expect((port1 as unknown as MockMessagePort).lastMessage).not.toEqual(
+        message
+      )
+    })
+
+    it('should call onClientRemove when an identified client is removed', () => {
+      const onClientRemove = vi.fn()
+      portManager = new PortManager({ onClientRemove })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      identify(mockPort as unknown as MessagePort, 'tab-1')
+
+      mockPort.simulateMessage({ type: '@shared-worker-utils/disconnect' })
+
+      expect(onClientRemove).toHaveBeenCalledWith(
+        mockPort,
+        expect.objectContaining({ id: 'tab-1', metadata }),
+        'disconnect'
+      )
+      expect(portManager.getClients()).toEqual([])
+    })
+
+    it('should replace the previous port when a client reconnects with the same ID', () => {
+      const onClientConnect = vi.fn()
+      const onClientRemove = vi.fn()
+      portManager = new PortManager({ onClientConnect, onClientRemove })
+
+      const port1 = new MockMessagePort() as unknown as MessagePort
+      const port2 = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(port1)
+      identify(port1, 'tab-1')
+      portManager.handleConnect(port2)
+      identify(port2, 'tab-1')
+
+      expect(portManager.getTotalCount()).toBe(1)
+      expect(portManager.getClients()).toHaveLength(1)
+      expect(onClientConnect).toHaveBeenCalledTimes(1)
+      expect(onClientRemove).not.toHaveBeenCalled()
+
+      portManager.sendTo('tab-1', { type: 'direct' })
+      expect((port2 as unknown as MockMessagePort).lastMessage).toEqual({
+        type: 'direct',
+      })
+    })
+  })
+
+  describe('contract validation', () => {
+    const contract = defineContract({
+      client: {
+        custom: (value: unknown): value is TestMessage =>
+          typeof (value as TestMessage).data === 'string',
+      },
+      worker: {},
+    })
+
+    it('should pass valid messages to onMessage', () => {
+      const onMessage = vi.fn()
+      portManager = new PortManager({ contract, onMessage })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      const message = { type: 'custom', data: 'test' }
+      mockPort.simulateMessage(message)
+
+      expect(onMessage).toHaveBeenCalledWith(mockPort, message)
+    })
+
+    it('should reject and log invalid messages', () => {
+      const onMessage = vi.fn()
+      const onLog = vi.fn()
+      portManager = new PortManager({ contract, onMessage, onLog })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      ;(mockPort as unknown as MessagePort).lastMessage = undefined
+
+      mockPort.simulateMessage({ type: 'custom', data: 42 })
+
+      expect(onMessage).not.toHaveBeenCalled()
+      expect(onLog).toHaveBeenCalledWith({
+        message: '[PortManager] Rejected invalid message from client',
+        level: 'warn',
+        context: { messageType: 'custom', error: 'Invalid "custom" message' },
+      })
+      expect((mockPort as unknown as MessagePort).lastMessage).toBeUndefined()
+    })
+
+    it('should report invalid messages to the sender when enabled', () => {
+      portManager = new PortManager({ contract, reportInvalidMessages: true })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({ type: 'unknown' })
+
+      expect((mockPort as unknown as MessagePort).lastMessage).toEqual({
+        type: '@shared-worker-utils/message-rejected',
+        messageType: 'unknown',
+        error: 'Unknown message type "unknown"',
+      })
+    })
+
+    it('should call onMessageRejected when a client reports a rejection', () => {
+      const onMessageRejected = vi.fn()
+      portManager = new PortManager({ onMessageRejected })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/message-rejected',
+        messageType: 'update',
+        error: 'Invalid "update" message',
+      })
+
+      expect(onMessageRejected).toHaveBeenCalledWith(mockPort, {
+        messageType: 'update',
+        error: 'Invalid "update" message',
+      })
+    })
+  })
+
+  describe('version negotiation', () => {
+    const metadata = {
+      url: 'https://example.com/',
+      userAgent: 'test',
+      connectedAt: 1000,
+      custom: {},
+    }
+
+    // Send the connect handshake and return the acknowledgement
+    function connect(port: MessagePort, versions: Record<string, unknown>) {
+      const postMessage = vi.spyOn(port, 'postMessage')
+      ;(port as unknown as MockMessagePort).simulateMessage({
+        type: '@shared-worker-utils/connect',
+        clientId: 'tab-1',
+        metadata,
+        ...versions,
+      })
+      return postMessage.mock.calls
+        .map(([message]) => message)
+        .find(
+          (message) =>
+            (message as { type?: string }).type ===
+            '@shared-worker-utils/connect-ack'
+        )
+    }
+
+    it('should acknowledge compatible clients and store their version', () => {
+      let clientVersion: unknown
+      portManager = new PortManager({ protocolVersion: 3 })
+      portManager.handle('version', (_parameters, context) => {
+        clientVersion = context.client.protocolVersion
+      })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const ack = connect(mockPort as unknown as MessagePort, {
+        libraryVersion: 1,
+        protocolVersion: 3,
+      })
+
+      expect(ack).toEqual({
+        type: '@shared-worker-utils/connect-ack',
+        libraryVersion: 1,
+        protocolVersion: 3,
+      })
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'version',
+      })
+      expect(clientVersion).toBe(3)
+    })
+
+    it('should warn about and keep incompatible clients by default', () => {
+      const onLog = vi.fn()
+      portManager = new PortManager({ protocolVersion: 3, onLog })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const ack = connect(mockPort as unknown as MessagePort, {
+        libraryVersion: 1,
+        protocolVersion: 2,
+      })
+
+      const mismatch = {
+        clientLibraryVersion: 1,
+        workerLibraryVersion: 1,
+        clientProtocolVersion: 2,
+        workerProtocolVersion: 3,
+        action: 'warn',
+      }
+      expect(ack).toEqual({
+        type: '@shared-worker-utils/connect-ack',
+        libraryVersion: 1,
+        protocolVersion: 3,
+        mismatch,
+      })
+      expect(onLog).toHaveBeenCalledWith({
+        message: '[PortManager] Client version mismatch',
+        level: 'warn',
+        context: { clientId: 'tab-1', ...mismatch },
+      })
+      expect(portManager.getClient('tab-1')).toBeDefined()
+    })
+
+    it('should remove incompatible clients when the action is reject', () => {
+      const onClientConnect = vi.fn()
+      const onClientRemove = vi.fn()
+      portManager = new PortManager({
+        protocolVersion: 3,
+        versionMismatchAction: 'reject',
+        onClientConnect,
+        onClientRemove,
+      })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      connect(mockPort as unknown as MessagePort, { libraryVersion: 1 })
+
+      expect(portManager.getTotalCount()).toBe(0)
+      expect(onClientConnect).not.toHaveBeenCalled()
+      expect(onClientRemove).toHaveBeenCalledWith(
+        mockPort,
+        expect.objectContaining({ id: undefined }),
+        'version-mismatch'
+      )
+    })
+
+    it('should treat clients without a library version as incompatible', () => {
+      portManager = new PortManager()
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const ack = connect(mockPort as unknown as MessagePort, {})
+
+      expect(ack).toEqual(
+        expect.objectContaining({
+          mismatch: { workerLibraryVersion: 1, action: 'warn' },
+        })
+      )
+    })
+
+    it('should use isCompatibleVersion to compare application versions', () => {
+      portManager = new PortManager({
+        protocolVersion: '2.1.0',
+        isCompatibleVersion: (clientVersion, workerVersion) =>
+          String(clientVersion).split('.')[0] ===
+          String(workerVersion).split('.')[0],
+      })
+
+      mockPort = new MockMessagePort() as unknown as MessagePort
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const ack = connect(mockPort as unknown as MessagePort, {
+        libraryVersion: 1,
+        protocolVersion: '2.0.5',
+      })
+
+      expect(ack).toEqual(
+        expect.objectContaining({ type: '@shared-worker-utils/connect-ack' })
+      )
+      expect(ack).not.toHaveProperty('mismatch')
+    })
+  })
+
+  describe('hidden delivery', () => {
+    it('should deliver to hidden clients by default', () => {
+      portManager = new PortManager()
+      mockPort = connectHidden(portManager)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.broadcast({ type: 'tick', data: '1' })
+
+      expect(postMessage).toHaveBeenCalledWith({ type: 'tick', data: '1' }, [])
+    })
+
+    it('should drop messages for hidden clients', () => {
+      portManager = new PortManager({ hiddenDelivery: { mode: 'drop' } })
+      mockPort = connectHidden(portManager)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.broadcast({ type: 'tick', data: '1' })
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/visibility-change',
+        visible: true,
+      })
+
+      expect(sentMessages(postMessage)).toEqual([])
+    })
+
+    it('should buffer the latest messages and flush them when visible', () => {
+      portManager = new PortManager({
+        hiddenDelivery: { mode: 'buffer', limit: 2 },
+      })
+      mockPort = connectHidden(portManager)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.broadcast({ type: 'tick', data: '1' })
+      portManager.broadcast({ type: 'tick', data: '2' })
+      portManager.broadcast({ type: 'tick', data: '3' })
+      expect(sentMessages(postMessage)).toEqual([])
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/visibility-change',
+        visible: true,
+      })
+
+      expect(sentMessages(postMessage)).toEqual([
+        { type: 'tick', data: '2' },
+        { type: 'tick', data: '3' },
+      ])
+    })
+
+    it('should keep only the newest message per key when coalescing', () => {
+      portManager = new PortManager({
+        hiddenDelivery: {
+          mode: 'coalesce',
+          key: (message) => (message as { symbol?: string }).symbol,
+        },
+      })
+      mockPort = connectHidden(portManager)
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/subscribe',
+        topic: 'stocks',
+      })
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.publish('stocks', { symbol: 'ACME', price: 1 })
+      portManager.publish('stocks', { symbol: 'INIT', price: 5 })
+      portManager.publish('stocks', { type: 'market-closed' })
+      portManager.publish('stocks', { symbol: 'ACME', price: 2 })
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/visibility-change',
+        visible: true,
+      })
+
+      expect(sentMessages(postMessage)).toEqual([
+        { symbol: 'INIT', price: 5 },
+        { type: 'market-closed' },
+        { symbol: 'ACME', price: 2 },
+      ])
+    })
+
+    it('should always deliver internal messages', () => {
+      portManager = new PortManager({ hiddenDelivery: { mode: 'drop' } })
+      mockPort = connectHidden(portManager)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.broadcast({ type: '@shared-worker-utils/state-patch' })
+
+      expect(postMessage).toHaveBeenCalledWith(
+        { type: '@shared-worker-utils/state-patch' },
+        []
+      )
+    })
+
+    it('should deliver to visible clients whatever the policy', () => {
+      portManager = new PortManager({ hiddenDelivery: { mode: 'drop' } })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.broadcast({ type: 'tick' })
+
+      expect(postMessage).toHaveBeenCalledWith({ type: 'tick' }, [])
+    })
+
+    it('should override the policy for a single client', () => {
+      portManager = new PortManager({
+        hiddenDelivery: { mode: 'buffer', limit: 10 },
+      })
+      mockPort = connectHidden(portManager)
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/connect',
+        clientId: 'tab-1',
+        metadata: {
+          url: 'https://example.com/',
+          userAgent: 'test',
+          connectedAt: 1000,
+          custom: {},
+        },
+        libraryVersion: 1,
+      })
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.broadcast({ type: 'tick', data: '1' })
+      expect(sentMessages(postMessage)).toEqual([])
+
+      // Switching to 'deliver' flushes the held messages
+      expect(portManager.setHiddenDelivery('tab-1', { mode: 'deliver' })).toBe(
+        true
+      )
+      expect(sentMessages(postMessage)).toEqual([{ type: 'tick', data: '1' }])
+
+      portManager.broadcast({ type: 'tick', data: '2' })
+      expect(sentMessages(postMessage)).toHaveLength(2)
+
+      expect(portManager.setHiddenDelivery('unknown', { mode: 'drop' })).toBe(
+        false
+      )
+    })
+  })
+
+  describe('transfer and codecs', () => {
+    it('should transfer to the last recipient and clone for the others', () => {
+      portManager = new PortManager()
+      const ports = [new MockMessagePort(), new MockMessagePort()]
+      for (const port of ports) {
+        portManager.handleConnect(port as unknown as MessagePort)
+      }
+      const [first, last] = ports.map((port) => vi.spyOn(port, 'postMessage'))
+      const buffer = new ArrayBuffer(8)
+
+      portManager.broadcast({ type: 'tile', buffer }, { transfer: [buffer] })
+
+      expect(first).toHaveBeenLastCalledWith({ type: 'tile', buffer }, [])
+      expect(last).toHaveBeenLastCalledWith({ type: 'tile', buffer }, [buffer])
+    })
+
+    it('should hold a copy for hidden clients when transferring', () => {
+      portManager = new PortManager({
+        hiddenDelivery: { mode: 'buffer', limit: 1 },
+      })
+      mockPort = connectHidden(portManager)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+      const buffer = new ArrayBuffer(8)
+
+      portManager.broadcast({ type: 'tile', buffer }, { transfer: [buffer] })
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/visibility-change',
+        visible: true,
+      })
+
+      const [held] = sentMessages(postMessage) as Array<{
+        buffer: ArrayBuffer
+      }>
+      expect(held.buffer).not.toBe(buffer)
+      expect(held.buffer.byteLength).toBe(8)
+    })
+
+    it('should pass the transfer list to sendTo()', () => {
+      portManager = new PortManager()
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      identifyPort(mockPort, 'tab-1')
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+      const buffer = new ArrayBuffer(8)
+
+      portManager.sendTo('tab-1', { buffer }, { transfer: [buffer] })
+
+      expect(postMessage).toHaveBeenCalledWith({ buffer }, [buffer])
+    })
+
+    it('should encode outgoing and decode incoming messages with the codec', () => {
+      const onMessage = vi.fn()
+      const codec = {
+        encode: (message: unknown) =>
+          new TextEncoder().encode(JSON.stringify(message)).buffer,
+        decode: (data: unknown) =>
+          JSON.parse(new TextDecoder().decode(data as ArrayBuffer)),
+      }
+      portManager = new PortManager({ codec, onMessage })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      mockPort.simulateMessage(codec.encode({ type: 'hello' }))
+      portManager.broadcast({ type: 'tick' })
+
+      expect(onMessage).toHaveBeenCalledWith(mockPort, { type: 'hello' })
+      const [data, transfer] = postMessage.mock.calls[0] as [
+        ArrayBuffer,
+        Transferable[],
+      ]
+      expect(codec.decode(data)).toEqual({ type: 'tick' })
+      // Encoded ArrayBuffers are transferred rather than copied
+      expect(transfer).toEqual([data])
+    })
+
+    it('should drop data the codec cannot decode', () => {
+      const onMessage = vi.fn()
+      const onLog = vi.fn()
+      portManager = new PortManager({
+        codec: {
+          encode: (message) => message,
+          decode: () => {
+            throw new Error('Bad payload')
+          },
+        },
+        onMessage,
+        onLog,
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage('garbage')
+
+      expect(onMessage).not.toHaveBeenCalled()
+      expect(onLog).toHaveBeenCalledWith({
+        message: '[PortManager] Failed to decode message from client',
+        level: 'warn',
+        context: { error: 'Bad payload' },
+      })
+    })
+  })
+
+  describe('middleware', () => {
+    it('should stop inbound messages a middleware does not pass on', () => {
+      const onMessage = vi.fn()
+      portManager = new PortManager({
+        onMessage,
+        // Only identified clients may send application messages
+        middleware: [
+          (context, next) => {
+            if (context.internal || context.client.id !== undefined) next()
+          },
+        ],
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({ type: 'early' })
+      identifyPort(mockPort, 'tab-1')
+      mockPort.simulateMessage({ type: 'late' })
+
+      expect(onMessage).toHaveBeenCalledTimes(1)
+      expect(onMessage).toHaveBeenCalledWith(mockPort, { type: 'late' })
+    })
+
+    it('should reject a request when inbound middleware throws', () => {
+      const handler = vi.fn()
+      portManager = new PortManager({
+        middleware: [
+          (context, next) => {
+            if (context.direction === 'inbound') throw new Error('Not allowed')
+            next()
+          },
+        ],
+      })
+      portManager.handle('secret', handler)
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'secret',
+      })
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(postMessage).toHaveBeenCalledWith(
+        {
+          type: '@shared-worker-utils/response',
+          id: 1,
+          error: expect.objectContaining({ message: 'Not allowed' }),
+        },
+        []
+      )
+    })
+
+    it('should run outbound middleware once per broadcast recipient', () => {
+      portManager = new PortManager()
+      const ports = [new MockMessagePort(), new MockMessagePort()]
+      for (const [index, port] of ports.entries()) {
+        portManager.handleConnect(port as unknown as MessagePort)
+        identifyPort(port, `tab-${index}`)
+      }
+      portManager.use((context, next) => {
+        if (!context.internal) {
+          context.message = {
+            ...(context.message as TestMessage),
+            data: context.client.id,
+          }
+        }
+        next()
+      })
+      const [first, second] = ports.map((port) => vi.spyOn(port, 'postMessage'))
+
+      portManager.broadcast({ type: 'tick' })
+
+      expect(first).toHaveBeenCalledWith({ type: 'tick', data: 'tab-0' }, [])
+      expect(second).toHaveBeenCalledWith({ type: 'tick', data: 'tab-1' }, [])
+    })
+
+    it('should post messages in order after async outbound middleware', async () => {
+      portManager = new PortManager({
+        middleware: [
+          async (context, next) => {
+            if (context.message === 'slow') await Promise.resolve()
+            await next()
+          },
+        ],
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      portManager.broadcast('slow')
+      portManager.broadcast('fast')
+
+      await vi.waitFor(() =>
+        expect(sentMessages(postMessage)).toEqual(['slow', 'fast'])
+      )
+    })
+
+    it('should stop running middleware removed with the returned function', () => {
+      const middleware = vi.fn()
+      const onMessage = vi.fn()
+      portManager = new PortManager({ onMessage })
+      const remove = portManager.use(middleware)
+
+      remove()
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      mockPort.simulateMessage({ type: 'hello' })
+
+      expect(middleware).not.toHaveBeenCalled()
+      expect(onMessage).toHaveBeenCalledWith(mockPort, { type: 'hello' })
+    })
+  })
+
+  describe('rate limiting', () => {
+    it('should drop messages over the limit and tell the client once', () => {
+      const onMessage = vi.fn()
+      const onRateLimited = vi.fn()
+      portManager = new PortManager({
+        onMessage,
+        onRateLimited,
+        rateLimit: { perClient: { rate: 1, burst: 2 } },
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      for (let index = 0; index < 4; index++) {
+        mockPort.simulateMessage({ type: 'chat' })
+      }
+
+      expect(onMessage).toHaveBeenCalledTimes(2)
+      expect(onRateLimited).toHaveBeenCalledTimes(2)
+      expect(onRateLimited).toHaveBeenLastCalledWith(mockPort, {
+        messageType: 'chat',
+        action: 'dropped',
+        violations: 2,
+      })
+      expect(sentMessages(postMessage)).toEqual([
+        {
+          type: '@shared-worker-utils/rate-limited',
+          messageType: 'chat',
+          action: 'dropped',
+          retryAfter: 1000,
+        },
+      ])
+
+      vi.advanceTimersByTime(1000)
+      mockPort.simulateMessage({ type: 'chat' })
+      expect(onMessage).toHaveBeenCalledTimes(3)
+    })
+
+    it('should only apply per-type limits to that type', () => {
+      const onMessage = vi.fn()
+      portManager = new PortManager({
+        onMessage,
+        rateLimit: { perType: { typing: { rate: 1 } } },
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({ type: 'typing' })
+      mockPort.simulateMessage({ type: 'typing' })
+      mockPort.simulateMessage({ type: 'chat' })
+      mockPort.simulateMessage({ type: 'chat' })
+
+      expect(onMessage.mock.calls.map(([, message]) => message)).toEqual([
+        { type: 'typing' },
+        { type: 'chat' },
+        { type: 'chat' },
+      ])
+    })
+
+    it('should reject dropped requests', () => {
+      const handler = vi.fn()
+      portManager = new PortManager({
+        rateLimit: { perType: { search: { rate: 1 } } },
+      })
+      portManager.handle('search', handler)
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      for (const id of [1, 2]) {
+        mockPort.simulateMessage({
+          type: '@shared-worker-utils/request',
+          id,
+          method: 'search',
+        })
+      }
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(postMessage).toHaveBeenCalledWith(
+        {
+          type: '@shared-worker-utils/response',
+          id: 2,
+          error: expect.objectContaining({
+            message: 'Rate limit exceeded for method "search"',
+          }),
+        },
+        []
+      )
+    })
+
+    it('should queue messages over the limit and handle them in order', () => {
+      const onMessage = vi.fn()
+      portManager = new PortManager({
+        onMessage,
+        rateLimit: { perClient: { rate: 10, burst: 1 }, overflow: 'queue' },
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      for (const data of ['a', 'b', 'c']) {
+        mockPort.simulateMessage({ type: 'chat', data })
+      }
+      expect(onMessage).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(100)
+      expect(onMessage).toHaveBeenCalledTimes(2)
+
+      vi.advanceTimersByTime(100)
+      expect(onMessage.mock.calls.map(([, message]) => message.data)).toEqual([
+        'a',
+        'b',
+        'c',
+      ])
+    })
+
+    it('should disconnect clients that keep flooding', () => {
+      const onRateLimited = vi.fn()
+      portManager = new PortManager({
+        onRateLimited,
+        rateLimit: { perClient: { rate: 1 }, disconnectAfter: 3 },
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      identifyPort(mockPort, 'tab-1')
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+
+      for (let index = 0; index < 4; index++) {
+        mockPort.simulateMessage({ type: 'chat' })
+      }
+
+      expect(onRateLimited).toHaveBeenLastCalledWith(mockPort, {
+        clientId: 'tab-1',
+        messageType: 'chat',
+        action: 'disconnected',
+        violations: 3,
+      })
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: '@shared-worker-utils/rate-limited',
+          action: 'disconnected',
+        }),
+        []
+      )
+      expect(portManager.getTotalCount()).toBe(0)
+    })
+  })
+
+  describe('lifecycle callbacks', () => {
+    it('should report visibility changes, staleness and restores', () => {
+      const onClientVisibilityChange = vi.fn()
+      const onClientStale = vi.fn()
+      const onClientRestore = vi.fn()
+      portManager = new PortManager({
+        pingInterval: 1000,
+        pingTimeout: 500,
+        heartbeat: { hiddenTimeout: 500 },
+        onClientVisibilityChange,
+        onClientStale,
+        onClientRestore,
+      })
+      const port = connectHidden(portManager)
+
+      expect(onClientVisibilityChange).toHaveBeenCalledWith(
+        port,
+        expect.objectContaining({ visible: false })
+      )
+
+      vi.advanceTimersByTime(2000)
+      expect(onClientStale).toHaveBeenCalledWith(
+        port,
+        expect.objectContaining({ reason: 'hidden-ping-timeout' }),
+        expect.objectContaining({
+          status: 'stale',
+          staleReason: 'hidden-ping-timeout',
+        })
+      )
+
+      pong(port)
+      expect(onClientRestore).toHaveBeenCalledWith(
+        port,
+        expect.objectContaining({ status: 'connected', staleReason: undefined })
+      )
+    })
+
+    it('should report why a client was removed', () => {
+      const onClientRemove = vi.fn()
+      portManager = new PortManager({
+        pingInterval: 1000,
+        pingTimeout: 500,
+        staleClientTimeout: 1000,
+        onClientRemove,
+      })
+      const ports = ['tab-1', 'tab-2', 'tab-3', 'tab-4'].map((id) => {
+        const port = new MockMessagePort()
+        portManager.handleConnect(port as unknown as MessagePort)
+        identifyPort(port, id)
+        return port
+      })
+
+      ports[0].simulateMessage({ type: '@shared-worker-utils/disconnect' })
+
+      // tab-3 goes stale first and is removed manually
+      vi.advanceTimersByTime(1000)
+      pong(ports[1])
+      pong(ports[3])
+      vi.advanceTimersByTime(1000)
+      pong(ports[3])
+      portManager.removeStaleClients()
+
+      // tab-2 goes stale next and stays stale past staleClientTimeout
+      for (let step = 0; step < 3; step++) {
+        vi.advanceTimersByTime(1000)
+        pong(ports[3])
+      }
+
+      portManager.destroy()
+
+      const reasons = onClientRemove.mock.calls.map(
+        ([port, client, reason]) => [
+          ports.indexOf(port as MockMessagePort),
+          (client as { id: string }).id,
+          reason,
+        ]
+      )
+      expect(reasons).toEqual([
+        [0, 'tab-1', 'disconnect'],
+        [2, 'tab-3', 'manual'],
+        [1, 'tab-2', 'timeout'],
+        [3, 'tab-4', 'destroy'],
+      ])
+    })
+
+    it('should report ports removed before or while identifying', () => {
+      const onClientRemove = vi.fn()
+      portManager = new PortManager({
+        versionMismatchAction: 'reject',
+        onClientRemove,
+      })
+
+      const anonymousPort = new MockMessagePort()
+      portManager.handleConnect(anonymousPort as unknown as MessagePort)
+      anonymousPort.simulateMessage({ type: '@shared-worker-utils/disconnect' })
+
+      const rejectedPort = new MockMessagePort()
+      portManager.handleConnect(rejectedPort as unknown as MessagePort)
+      rejectedPort.simulateMessage({
+        type: '@shared-worker-utils/connect',
+        clientId: 'old-tab',
+        metadata: {},
+        libraryVersion: 0,
+      })
+
+      expect(onClientRemove.mock.calls).toEqual([
+        [
+          anonymousPort,
+          expect.objectContaining({ id: undefined }),
+          'disconnect',
+        ],
+        [rejectedPort, expect.anything(), 'version-mismatch'],
+      ])
+      expect(onClientRemove.mock.calls[0][1]).not.toHaveProperty('controller')
+    })
+  })
+
+  describe('page lifecycle', () => {
+    it('should treat frozen clients as inactive', () => {
+      const onClientVisibilityChange = vi.fn()
+      portManager = new PortManager({ onClientVisibilityChange })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/visibility-change',
+        state: 'frozen',
+        visible: false,
+      })
+
+      expect(portManager.getActiveCount()).toBe(0)
+      expect(portManager.getTotalCount()).toBe(1)
+      expect(onClientVisibilityChange).toHaveBeenCalledWith(
+        mockPort,
+        expect.objectContaining({ lifecycle: 'frozen', visible: false })
+      )
+    })
+
+    it('should derive the state from clients that only send visible', () => {
+      const onClientVisibilityChange = vi.fn()
+      portManager = new PortManager({ onClientVisibilityChange })
+
+      connectHidden(portManager)
+
+      expect(onClientVisibilityChange).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ lifecycle: 'hidden', visible: false })
+      )
+    })
+  })
+
+  describe('focus and user idle', () => {
+    it('should find the tab that gained focus last', () => {
+      const onClientFocusChange = vi.fn()
+      portManager = new PortManager({ onClientFocusChange })
+      const [first, second] = ['tab-1', 'tab-2'].map((id) => {
+        const port = new MockMessagePort()
+        portManager.handleConnect(port as unknown as MessagePort)
+        identifyPort(port, id)
+        return port
+      })
+      expect(portManager.getFocusedClient()).toBeUndefined()
+
+      reportActivity(first, true)
+      vi.advanceTimersByTime(10)
+      // The blur of the first tab can arrive after the focus of the second
+      reportActivity(second, true)
+      expect(portManager.getFocusedClient()?.id).toBe('tab-2')
+      expect(portManager.getFocusedCount()).toBe(2)
+
+      reportActivity(second, false)
+      expect(portManager.getFocusedClient()?.id).toBe('tab-1')
+      expect(onClientFocusChange).toHaveBeenCalledTimes(3)
+      expect(onClientFocusChange).toHaveBeenLastCalledWith(
+        second,
+        expect.objectContaining({ id: 'tab-2', focused: false })
+      )
+    })
+
+    it('should report clients whose user went idle', () => {
+      const onClientUserIdleChange = vi.fn()
+      portManager = new PortManager({ onClientUserIdleChange })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      reportActivity(mockPort, true, true)
+      reportActivity(mockPort, false, true)
+
+      expect(portManager.getUserIdleCount()).toBe(1)
+      expect(onClientUserIdleChange).toHaveBeenCalledTimes(1)
+      expect(onClientUserIdleChange).toHaveBeenCalledWith(
+        mockPort,
+        expect.objectContaining({ userIdle: true })
+      )
+    })
+  })
+
+  describe('liveness locks', () => {
+    let locks: MockLockManager
+
+    beforeEach(() => {
+      locks = new MockLockManager()
+      Object.defineProperty(navigator, 'locks', {
+        value: locks,
+        configurable: true,
+      })
+    })
+
+    afterEach(() => {
+      delete (navigator as { locks?: unknown }).locks
+    })
+
+    it('should remove a client as soon as its tab releases the lock', async () => {
+      const onClientRemove = vi.fn()
+      const onActiveCountChange = vi.fn()
+      portManager = new PortManager({ onClientRemove, onActiveCountChange })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      identifyPort(mockPort, 'tab-1')
+      holdLock(mockPort, 'lock-1')
+
+      expect(locks.isWaiting('lock-1')).toBe(true)
+      expect(portManager.getTotalCount()).toBe(1)
+
+      locks.release('lock-1')
+      await flushMicrotasks()
+
+      expect(onClientRemove).toHaveBeenCalledWith(
+        mockPort,
+        expect.objectContaining({ id: 'tab-1', livenessLock: 'lock-1' }),
+        'closed'
+      )
+      expect(onActiveCountChange).toHaveBeenLastCalledWith(0, 0)
+    })
+
+    it('should watch the lock only once per port', () => {
+      const request = vi.spyOn(locks, 'request')
+      portManager = new PortManager()
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      holdLock(mockPort, 'lock-1')
+      holdLock(mockPort, 'lock-1')
+
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop waiting for the lock when the client is removed otherwise', async () => {
+      const onClientRemove = vi.fn()
+      portManager = new PortManager({ onClientRemove })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      identifyPort(mockPort, 'tab-1')
+      holdLock(mockPort, 'lock-1')
+
+      mockPort.simulateMessage({ type: '@shared-worker-utils/disconnect' })
+      await flushMicrotasks()
+
+      expect(locks.isWaiting('lock-1')).toBe(false)
+      expect(onClientRemove).toHaveBeenCalledTimes(1)
+      expect(onClientRemove).toHaveBeenCalledWith(
+        mockPort,
+        expect.anything(),
+        'disconnect'
+      )
+    })
+
+    it('should fall back to heartbeats without Web Locks', () => {
+      delete (navigator as { locks?: unknown }).locks
+      portManager = new PortManager({
+        pingInterval: 1000,
+        pingTimeout: 500,
+        staleClientTimeout: 1000,
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      holdLock(mockPort, 'lock-1')
+
+      expect(portManager.getTotalCount()).toBe(1)
+
+      vi.advanceTimersByTime(4000)
+      expect(portManager.getTotalCount()).toBe(0)
+      expect(portManager.getStaleCount()).toBe(0)
+    })
+  })
+
+  describe('idle and active', () => {
+    it('should not go idle when a tab is hidden only briefly', () => {
+      const onIdle = vi.fn()
+      const onActive = vi.fn()
+      portManager = new PortManager({ idleDelay: 3000, onIdle, onActive })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      expect(onActive).toHaveBeenCalledTimes(1)
+      expect(portManager.isIdle()).toBe(false)
+
+      setVisible(mockPort, false)
+      vi.advanceTimersByTime(2000)
+      setVisible(mockPort, true)
+      vi.advanceTimersByTime(5000)
+      expect(onIdle).not.toHaveBeenCalled()
+
+      setVisible(mockPort, false)
+      vi.advanceTimersByTime(3000)
+      expect(onIdle).toHaveBeenCalledTimes(1)
+      expect(portManager.isIdle()).toBe(true)
+      expect(onActive).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop a pending transition on destroy', () => {
+      const onIdle = vi.fn()
+      portManager = new PortManager({ idleDelay: 1000, onIdle })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      setVisible(mockPort, false)
+
+      portManager.destroy()
+      vi.advanceTimersByTime(1000)
+
+      expect(onIdle).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('heartbeat', () => {
+    it('should give hidden tabs longer before marking them stale', () => {
+      const onClientStale = vi.fn()
+      portManager = new PortManager({
+        pingInterval: 1000,
+        pingTimeout: 500,
+        heartbeat: { hiddenTimeout: 10_000 },
+        onClientStale,
+      })
+      const visiblePort = new MockMessagePort()
+      portManager.handleConnect(visiblePort as unknown as MessagePort)
+      identifyPort(visiblePort, 'visible-tab')
+      connectHidden(portManager)
+
+      vi.advanceTimersByTime(2000)
+      expect(portManager.getStaleCount()).toBe(1)
+      expect(onClientStale).toHaveBeenCalledWith(
+        visiblePort,
+        {
+          clientId: 'visible-tab',
+          reason: 'ping-timeout',
+          silentFor: 2000,
+          timeout: 500,
+        },
+        expect.anything()
+      )
+
+      vi.advanceTimersByTime(9000)
+      expect(portManager.getStaleCount()).toBe(1)
+      vi.advanceTimersByTime(1000)
+      expect(portManager.getStaleCount()).toBe(2)
+      expect(onClientStale).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          reason: 'hidden-ping-timeout',
+          timeout: 10_000,
+        }),
+        expect.anything()
+      )
+    })
+
+    it('should log why a client went stale', () => {
+      const onLog = vi.fn()
+      portManager = new PortManager({
+        pingInterval: 1000,
+        pingTimeout: 500,
+        onLog,
+      })
+      portManager.handleConnect(new MockMessagePort() as unknown as MessagePort)
+
+      vi.advanceTimersByTime(2000)
+
+      expect(onLog).toHaveBeenCalledWith({
+        message: '[PortManager] Marking client as stale',
+        level: 'info',
+        context: { reason: 'ping-timeout', silentFor: 2000, timeout: 500 },
+      })
+    })
+
+    it('should adapt the timeout to pong latency', () => {
+      portManager = new PortManager({
+        pingInterval: 1000,
+        pingTimeout: 500,
+        heartbeat: { adaptive: { latencyMultiplier: 2 } },
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      // Answer the first ping after 900ms
+      vi.advanceTimersByTime(1900)
+      mockPort.simulateMessage({ type: '@shared-worker-utils/pong' })
+
+      // Silent for 2500ms is within pingInterval + 2 * 900ms
+      vi.advanceTimersByTime(2500)
+      expect(portManager.getStaleCount()).toBe(0)
+
+      vi.advanceTimersByTime(1000)
+      expect(portManager.getStaleCount()).toBe(1)
+    })
+  })
+
+  describe('metrics', () => {
+    it('should measure latency from ping to pong', () => {
+      vi.setSystemTime(0)
+      portManager = new PortManager({ pingInterval: 1000 })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      vi.advanceTimersByTime(1000)
+      const ping = mockPort.lastMessage as PingMessage
+      vi.advanceTimersByTime(30)
+      pongTo(mockPort, ping)
+      // The client is told the round trip of the ping it answered
+      expect(mockPort.lastMessage).toEqual({
+        type: '@shared-worker-utils/latency',
+        timestamp: 1000,
+        latency: 30,
+      })
+
+      // Pongs that do not echo the timestamp are timed from the last ping
+      vi.advanceTimersByTime(970)
+      vi.advanceTimersByTime(10)
+      pong(mockPort)
+      expect(mockPort.lastMessage).toEqual({
+        type: '@shared-worker-utils/ping',
+        timestamp: 2000,
+      })
+
+      const { clients, totals } = portManager.getMetrics()
+      expect(clients[0]).toMatchObject({ latency: 10, averageLatency: 20 })
+      expect(totals.averageLatency).toBe(10)
+    })
+
+    it('should time a late pong from the ping it echoes', () => {
+      vi.setSystemTime(0)
+      portManager = new PortManager({ pingInterval: 1000, pingTimeout: 5000 })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      vi.advanceTimersByTime(1000)
+      const ping = mockPort.lastMessage as PingMessage
+      vi.advanceTimersByTime(1050)
+      pongTo(mockPort, ping)
+
+      expect(portManager.getMetrics().clients[0].latency).toBe(1050)
+    })
+
+    it('should count messages and bytes in both directions', () => {
+      portManager = new PortManager()
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      identifyPort(mockPort, 'tab-1')
+      const before = portManager.getMetrics().clients[0]
+
+      mockPort.simulateMessage({ type: 'chat', data: 'hi' })
+      portManager.broadcast({ type: 'chat', data: 'hello' })
+
+      const after = portManager.getMetrics().clients[0]
+      expect(after.id).toBe('tab-1')
+      expect(after.messagesIn - before.messagesIn).toBe(1)
+      expect(after.bytesIn - before.bytesIn).toBe(
+        'type'.length + 'chat'.length + 'data'.length + 'hi'.length
+      )
+      expect(after.messagesOut - before.messagesOut).toBe(1)
+      expect(after.bytesOut - before.bytesOut).toBe(
+        'type'.length + 'chat'.length + 'data'.length + 'hello'.length
+      )
+    })
+
+    it('should track visible and hidden time', () => {
+      portManager = new PortManager()
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      vi.advanceTimersByTime(300)
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/visibility-change',
+        visible: false,
+      })
+      vi.advanceTimersByTime(200)
+
+      expect(portManager.getMetrics().clients[0]).toMatchObject({
+        visible: false,
+        visibleTime: 300,
+        hiddenTime: 200,
+        connectedFor: 500,
+      })
+    })
+
+    it('should count stale transitions', () => {
+      portManager = new PortManager({ pingInterval: 1000, pingTimeout: 500 })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      vi.advanceTimersByTime(2000)
+      mockPort.simulateMessage({ type: '@shared-worker-utils/pong' })
+      vi.advanceTimersByTime(2000)
+
+      const { clients, totals } = portManager.getMetrics()
+      expect(clients[0].staleTransitions).toBe(2)
+      expect(totals).toMatchObject({ clients: 1, stale: 1, active: 0 })
+    })
+
+    it('should report metrics periodically to onMetrics', () => {
+      const onMetrics = vi.fn()
+      portManager = new PortManager({ onMetrics, metricsInterval: 5000 })
+      portManager.handleConnect(new MockMessagePort() as unknown as MessagePort)
+
+      vi.advanceTimersByTime(5000)
+      expect(onMetrics).toHaveBeenCalledTimes(1)
+      expect(onMetrics).toHaveBeenCalledWith(
+        expect.objectContaining({
+          timestamp: Date.now(),
+          totals: expect.objectContaining({ clients: 1, active: 1 }),
+        })
+      )
+
+      portManager.destroy()
+      vi.advanceTimersByTime(5000)
+      expect(onMetrics).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('readiness', () => {
+    it('should tell clients they are ready after the handshake', () => {
+      portManager = new PortManager()
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      identifyPort(mockPort, 'tab-1')
+
+      expect(mockPort.lastMessage).toEqual({
+        type: '@shared-worker-utils/ready',
+      })
+    })
+
+    it('should wait for ready() with deferReady', () => {
+      portManager = new PortManager({ deferReady: true })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+      identifyPort(mockPort, 'tab-1')
+
+      expect(postMessage).not.toHaveBeenCalledWith(
+        { type: '@shared-worker-utils/ready' },
+        []
+      )
+
+      portManager.ready()
+      expect(postMessage).toHaveBeenLastCalledWith(
+        { type: '@shared-worker-utils/ready' },
+        []
+      )
+
+      // Later clients are ready as soon as they connect
+      const laterPort = new MockMessagePort()
+      portManager.handleConnect(laterPort as unknown as MessagePort)
+      identifyPort(laterPort, 'tab-2')
+      expect(laterPort.lastMessage).toEqual({
+        type: '@shared-worker-utils/ready',
+      })
+    })
+
+    it('should ready a single client by ID', () => {
+      portManager = new PortManager({ deferReady: true })
+      const ports = [new MockMessagePort(), new MockMessagePort()]
+      for (const [index, port] of ports.entries()) {
+        portManager.handleConnect(port as unknown as MessagePort)
+        identifyPort(port, `tab-${index}`)
+      }
+      const [first, second] = ports.map((port) => vi.spyOn(port, 'postMessage'))
+
+      expect(portManager.ready('tab-1')).toBe(true)
+      expect(portManager.ready('unknown')).toBe(false)
+
+      expect(first).not.toHaveBeenCalled()
+      expect(second).toHaveBeenCalledWith(
+        { type: '@shared-worker-utils/ready' },
+        []
+      )
+    })
+  })
+
+  describe('shutdown', () => {
+    it('should tell clients, finish in-flight requests and close ports', async () => {
+      let finish!: (value: string) => void
+      portManager = new PortManager()
+      portManager.handle(
+        'slow',
+        () => new Promise((resolve) => (finish = resolve))
+      )
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+      const close = vi.spyOn(mockPort, 'close')
+
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'slow',
+      })
+      const shutdown = portManager.shutdown({ reason: 'Deploy' })
+
+      expect(postMessage).toHaveBeenCalledWith(
+        {
+          type: '@shared-worker-utils/shutdown',
+          reason: 'Deploy',
+          drainTimeout: 5000,
+        },
+        []
+      )
+      expect(close).not.toHaveBeenCalled()
+
+      finish('done')
+      await shutdown
+
+      expect(postMessage).toHaveBeenCalledWith(
+        { type: '@shared-worker-utils/response', id: 1, result: 'done' },
+        []
+      )
+      expect(close).toHaveBeenCalled()
+      expect(portManager.getTotalCount()).toBe(0)
+    })
+
+    it('should reject requests that arrive while shutting down', () => {
+      const handler = vi.fn()
+      portManager = new PortManager()
+      portManager.handle('search', handler)
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+      // Keep a request in flight so the shutdown does not finish at once
+      portManager.handle('slow', () => new Promise(() => {}))
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'slow',
+      })
+
+      void portManager.shutdown()
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 2,
+        method: 'search',
+      })
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(postMessage).toHaveBeenCalledWith(
+        {
+          type: '@shared-worker-utils/response',
+          id: 2,
+          error: expect.objectContaining({
+            message: 'SharedWorker is shutting down',
+          }),
+        },
+        []
+      )
+    })
+
+    it('should abort handlers still running after the drain timeout', async () => {
+      let signal!: AbortSignal
+      portManager = new PortManager()
+      portManager.handle('slow', (_parameters, context) => {
+        signal = context.signal
+        return new Promise(() => {})
+      })
+      mockPort = new MockMessagePort()
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+      mockPort.simulateMessage({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'slow',
+      })
+
+      const shutdown = portManager.shutdown({ drainTimeout: 1000 })
+      await vi.advanceTimersByTimeAsync(1000)
+      await shutdown
+
+      expect(signal.aborted).toBe(true)
+      expect(postMessage).toHaveBeenCalledWith(
+        {
+          type: '@shared-worker-utils/response',
+          id: 1,
+          error: expect.objectContaining({ message: 'SharedWorker shut down' }),
+        },
+        []
+      )
+    })
+
+    it('should tell clients connecting during the shutdown', () => {
+      portManager = new PortManager()
+      portManager.handleConnect(new MockMessagePort() as unknown as MessagePort)
+      portManager.handle('slow', () => new Promise(() => {}))
+      void portManager.shutdown({ drainTimeout: 1000 })
+
+      vi.advanceTimersByTime(400)
+      mockPort = new MockMessagePort()
+      const postMessage = vi.spyOn(mockPort, 'postMessage')
+      portManager.handleConnect(mockPort as unknown as MessagePort)
+
+      expect(postMessage).toHaveBeenCalledWith(
+        { type: '@shared-worker-utils/shutdown', drainTimeout: 600 },
+        []
+      )
+    })
+  })
+
+  it('should call count listeners until they are removed', () => {
+    const listener = vi.fn()
+    portManager = new PortManager()
+    const unwatch = portManager.watchClientCount(listener)
+
+    const port = connectHidden(portManager)
+    expect(listener).toHaveBeenLastCalledWith(0, 1)
+
+    unwatch()
+    port.simulateMessage({ type: '@shared-worker-utils/disconnect' })
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
   it('should clean up on destroy', () => {
     portManager = new PortManager()
 
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createRateLimitState,
+  getRateLimitTarget,
+  getWaitTime,
+  isRecovered,
+  takeToken,
+} from '../src/rate-limit'
+
+describe('getRateLimitTarget', () => {
+  it('should limit application messages by type and requests by method', () => {
+    expect(getRateLimitTarget({ type: 'chat' })).toEqual({
+      messageType: 'chat',
+    })
+    expect(getRateLimitTarget('raw')).toEqual({})
+    expect(
+      getRateLimitTarget({
+        type: '@shared-worker-utils/request',
+        id: 1,
+        method: 'search',
+      })
+    ).toEqual({ method: 'search' })
+  })
+
+  it('should not limit other internal messages', () => {
+    expect(getRateLimitTarget({ type: '@shared-worker-utils/pong' })).toBe(
+      undefined
+    )
+  })
+})
+
+describe('token buckets', () => {
+  const options = {
+    perClient: { rate: 2, burst: 2 },
+    perType: { chat: { rate: 1 } },
+  }
+
+  it('should allow a burst and then refill at the rate', () => {
+    const state = createRateLimitState()
+    const target = { messageType: 'move' }
+
+    expect(takeToken(state, options, target, 0)).toBe(true)
+    expect(takeToken(state, options, target, 0)).toBe(true)
+    expect(takeToken(state, options, target, 0)).toBe(false)
+    expect(getWaitTime(state, options, target, 0)).toBe(500)
+    expect(takeToken(state, options, target, 500)).toBe(true)
+  })
+
+  it('should take nothing unless every bucket has a token', () => {
+    const state = createRateLimitState()
+    const chat = { messageType: 'chat' }
+
+    expect(takeToken(state, options, chat, 0)).toBe(true)
+    expect(takeToken(state, options, chat, 0)).toBe(false)
+    // The client bucket still has the token the chat message did not take
+    expect(takeToken(state, options, { messageType: 'move' }, 0)).toBe(true)
+    expect(getWaitTime(state, options, chat, 0)).toBe(1000)
+  })
+
+  it('should report recovery once every bucket is full again', () => {
+    const state = createRateLimitState()
+    takeToken(state, options, { messageType: 'chat' }, 0)
+
+    expect(isRecovered(state, options, 500)).toBe(false)
+    expect(isRecovered(state, options, 1000)).toBe(true)
+  })
+})
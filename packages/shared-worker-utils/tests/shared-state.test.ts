@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PortManager } from '../src/port-manager'
+import { SharedState } from '../src/shared-state'
+import { SharedWorkerClient } from '../src/shared-worker-client'
+import type { SharedWorkerLike } from '../src/types'
+
+interface Prices {
+  status: 'open' | 'closed'
+  prices: Record<string, number>
+}
+
+const initialState: Prices = { status: 'open', prices: { ACME: 10 } }
+
+describe('SharedState', () => {
+  let portManager: PortManager
+  let clients: SharedWorkerClient[]
+
+  // Connects a client to the PortManager over a real MessageChannel
+  function connect(): SharedWorkerClient {
+    const channel = new MessageChannel()
+    portManager.handleConnect(channel.port2)
+    const worker: SharedWorkerLike = {
+      port: channel.port1,
+      addEventListener: () => {},
+    }
+    const client = new SharedWorkerClient(worker, { onMessage: vi.fn() })
+    clients.push(client)
+    return client
+  }
+
+  beforeEach(() => {
+    portManager = new PortManager()
+    clients = []
+  })
+
+  afterEach(() => {
+    for (const client of clients) client.destroy()
+    portManager.destroy()
+  })
+
+  it('should send a snapshot to clients that start mirroring', async () => {
+    const state = new SharedState(portManager, { name: 'prices', initialState })
+    state.set({ ...initialState, status: 'closed' })
+
+    const mirror = connect().getSharedState<Prices>('prices')
+    const listener = vi.fn()
+    mirror.subscribe(listener)
+
+    expect(mirror.get()).toBeUndefined()
+    await vi.waitFor(() => expect(mirror.isSynced()).toBe(true))
+
+    expect(mirror.get()).toEqual({ status: 'closed', prices: { ACME: 10 } })
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should send changes to every mirror as patches', async () => {
+    const state = new SharedState(portManager, { name: 'prices', initialState })
+    const first = connect().getSharedState<Prices>('prices')
+    const second = connect().getSharedState<Prices>('prices')
+    await vi.waitFor(() => {
+      expect(first.isSynced()).toBe(true)
+      expect(second.isSynced()).toBe(true)
+    })
+
+    const publish = vi.spyOn(portManager, 'publish')
+    state.update((current) => ({
+      ...current,
+      prices: { ...current.prices, ACME: 11 },
+    }))
+
+    expect(publish).toHaveBeenCalledWith('@shared-worker-utils/state/prices', {
+      type: '@shared-worker-utils/state-patch',
+      name: 'prices',
+      version: 1,
+      patch: [{ op: 'replace', path: '/prices/ACME', value: 11 }],
+    })
+    await vi.waitFor(() => {
+      expect(first.get()?.prices.ACME).toBe(11)
+      expect(second.get()?.prices.ACME).toBe(11)
+    })
+  })
+
+  it('should not publish when the state did not change', () => {
+    const state = new SharedState(portManager, { name: 'prices', initialState })
+    const publish = vi.spyOn(portManager, 'publish')
+
+    state.set({ status: 'open', prices: { ACME: 10 } })
+
+    expect(publish).not.toHaveBeenCalled()
+  })
+
+  it('should not pass patches to onMessage', async () => {
+    const onMessage = vi.fn()
+    const channel = new MessageChannel()
+    portManager.handleConnect(channel.port2)
+    const client = new SharedWorkerClient(
+      { port: channel.port1, addEventListener: () => {} },
+      { onMessage }
+    )
+    clients.push(client)
+
+    const state = new SharedState(portManager, { name: 'prices', initialState })
+    const mirror = client.getSharedState<Prices>('prices')
+    await vi.waitFor(() => expect(mirror.isSynced()).toBe(true))
+
+    state.set({ ...initialState, status: 'closed' })
+    await vi.waitFor(() => expect(mirror.get()?.status).toBe('closed'))
+
+    expect(onMessage).not.toHaveBeenCalled()
+    expect(client.getSubscriptions()).toEqual([])
+  })
+
+  it('should resync when a patch is missed', async () => {
+    const state = new SharedState(portManager, { name: 'prices', initialState })
+    const mirror = connect().getSharedState<Prices>('prices')
+    await vi.waitFor(() => expect(mirror.isSynced()).toBe(true))
+
+    // Drop the next patch
+    vi.spyOn(portManager, 'publish').mockImplementationOnce(() => {})
+    state.set({ ...initialState, status: 'closed' })
+    vi.mocked(portManager.publish).mockRestore()
+    state.set({ status: 'closed', prices: { ACME: 12 } })
+
+    await vi.waitFor(() =>
+      expect(mirror.get()).toEqual({ status: 'closed', prices: { ACME: 12 } })
+    )
+  })
+
+  it('should resync after reconnecting to a new SharedWorker', async () => {
+    new SharedState(portManager, { name: 'prices', initialState })
+    const errorTarget = new EventTarget()
+    const createWorker = (): SharedWorkerLike => {
+      const channel = new MessageChannel()
+      portManager.handleConnect(channel.port2)
+      return {
+        port: channel.port1,
+        addEventListener: (type, listener, options) =>
+          errorTarget.addEventListener(type, listener, options),
+      }
+    }
+    const client = new SharedWorkerClient(createWorker, {
+      onMessage: vi.fn(),
+      reconnect: { initialDelay: 10 },
+    })
+    clients.push(client)
+    const mirror = client.getSharedState<Prices>('prices')
+    await vi.waitFor(() => expect(mirror.isSynced()).toBe(true))
+
+    // The new worker starts from a different state
+    portManager.destroy()
+    portManager = new PortManager()
+    new SharedState(portManager, {
+      name: 'prices',
+      initialState: { status: 'closed', prices: {} },
+    })
+    errorTarget.dispatchEvent(new Event('error'))
+
+    await vi.waitFor(() =>
+      expect(mirror.get()).toEqual({ status: 'closed', prices: {} })
+    )
+  })
+
+  it('should return the same mirror for the same name', () => {
+    const client = connect()
+
+    expect(client.getSharedState('prices')).toBe(
+      client.getSharedState('prices')
+    )
+  })
+
+  describe('client mutations', () => {
+    it('should reject mutations without validateMutation', async () => {
+      new SharedState(portManager, { name: 'prices', initialState })
+      const mirror = connect().getSharedState<Prices>('prices')
+      await vi.waitFor(() => expect(mirror.isSynced()).toBe(true))
+
+      await expect(
+        mirror.set({ ...initialState, status: 'closed' })
+      ).rejects.toThrow('Shared state "prices" does not accept mutations')
+    })
+
+    it('should apply mutations accepted by validateMutation', async () => {
+      const validateMutation = vi.fn(() => true)
+      const state = new SharedState(portManager, {
+        name: 'prices',
+        initialState,
+        validateMutation,
+      })
+      const listener = vi.fn()
+      state.subscribe(listener)
+
+      const client = connect()
+      const mirror = client.getSharedState<Prices>('prices')
+      await vi.waitFor(() => expect(mirror.isSynced()).toBe(true))
+
+      await mirror.update((current) => ({ ...current, status: 'closed' }))
+
+      expect(mirror.get()?.status).toBe('closed')
+      expect(state.get().status).toBe('closed')
+      expect(listener).toHaveBeenCalledWith(state.get())
+      expect(validateMutation).toHaveBeenCalledWith(
+        { status: 'closed', prices: { ACME: 10 } },
+        expect.objectContaining({
+          previousState: initialState,
+          patch: [{ op: 'replace', path: '/status', value: 'closed' }],
+        })
+      )
+    })
+
+    it('should reject mutations refused by validateMutation', async () => {
+      const state = new SharedState(portManager, {
+        name: 'prices',
+        initialState,
+        validateMutation: (next) => next.prices.ACME > 0,
+      })
+      const mirror = connect().getSharedState<Prices>('prices')
+      await vi.waitFor(() => expect(mirror.isSynced()).toBe(true))
+
+      await expect(
+        mirror.set({ status: 'open', prices: { ACME: -1 } })
+      ).rejects.toThrow('Mutation of shared state "prices" was rejected')
+      expect(state.get()).toBe(initialState)
+    })
+
+    it('should reject mutations computed from an outdated state', async () => {
+      const state = new SharedState(portManager, {
+        name: 'prices',
+        initialState,
+        validateMutation: () => true,
+      })
+      const first = connect().getSharedState<Prices>('prices')
+      const second = connect().getSharedState<Prices>('prices')
+      await vi.waitFor(() => {
+        expect(first.isSynced()).toBe(true)
+        expect(second.isSynced()).toBe(true)
+      })
+
+      // Both tabs change the state they last saw at the same time
+      const results = await Promise.allSettled([
+        first.update((current) => ({ ...current, status: 'closed' })),
+        second.update((current) => ({ ...current, prices: { ACME: 12 } })),
+      ])
+
+      expect(results.map(({ status }) => status)).toEqual([
+        'fulfilled',
+        'rejected',
+      ])
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+        'Shared state "prices" changed since version 0'
+      )
+      expect(state.get()).toEqual({ status: 'closed', prices: { ACME: 10 } })
+      await vi.waitFor(() => expect(second.get()).toEqual(state.get()))
+    })
+
+    it('should not send mutations before the first snapshot', async () => {
+      const mirror = connect().getSharedState<Prices>('prices')
+
+      await expect(mirror.set(initialState)).rejects.toThrow(
+        'Shared state "prices" has not been synced yet'
+      )
+    })
+  })
+
+  it('should stop serving clients once destroyed', async () => {
+    const onLog = vi.fn()
+    const state = new SharedState(portManager, { name: 'prices', initialState })
+    state.destroy()
+
+    const channel = new MessageChannel()
+    portManager.handleConnect(channel.port2)
+    const client = new SharedWorkerClient(
+      { port: channel.port1, addEventListener: () => {} },
+      { onMessage: vi.fn(), onLog }
+    )
+    clients.push(client)
+    client.getSharedState('prices')
+
+    await vi.waitFor(() =>
+      expect(onLog).toHaveBeenCalledWith({
+        message: '[SharedStateMirror] Failed to sync shared state',
+        level: 'warn',
+        context: {
+          name: 'prices',
+          error:
+            'No handler registered for method "@shared-worker-utils/state/prices/sync"',
+        },
+      })
+    )
+  })
+})
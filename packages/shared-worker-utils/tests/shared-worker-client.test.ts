@@ -1,4 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { defineContract } from '../src/contract'
+import { RemoteError } from '../src/errors'
 import { SharedWorkerClient } from '../src/shared-worker-client'
 
 // Test message type
@@ -50,15 +52,29 @@ class MockPort {
 // Mock SharedWorker
 class MockSharedWorker {
   port = new MockPort()
+  private listeners = new Map<string, () => void>()
+
+  addEventListener(type: string, listener: () => void) {
+    this.listeners.set(type, listener)
+  }
+
+  // Test helper to simulate the worker failing
+  simulateError() {
+    this.listeners.get('error')?.()
+  }
 }
 
 // Mock document
 const mockDocument = {
   hidden: false,
+  focused: true,
   listeners: new Map<string, () => void>(),
   addEventListener(type: string, listener: () => void) {
     this.listeners.set(type, listener)
   },
+  hasFocus() {
+    return this.focused
+  },
   simulateVisibilityChange(hidden: boolean) {
     this.hidden = hidden
     const listener = this.listeners.get('visibilitychange')
@@ -66,22 +82,53 @@ const mockDocument = {
       listener()
     }
   },
+  simulateEvent(type: string) {
+    this.listeners.get(type)?.()
+  },
 }
 
 // Mock window
 const mockWindow = {
-  listeners: new Map<string, () => void>(),
-  addEventListener(type: string, listener: () => void) {
+  listeners: new Map<string, (event?: { persisted: boolean }) => void>(),
+  addEventListener(
+    type: string,
+    listener: (event?: { persisted: boolean }) => void
+  ) {
     this.listeners.set(type, listener)
   },
-  simulateBeforeUnload() {
-    const listener = this.listeners.get('beforeunload')
-    if (listener) {
-      listener()
-    }
+  simulatePageTransition(type: 'pagehide' | 'pageshow', persisted: boolean) {
+    this.listeners.get(type)?.({ persisted })
+  },
+  simulateEvent(type: string) {
+    this.listeners.get(type)?.()
   },
 }
 
+// Web Locks that grant every request on the next microtask
+class MockLockManager {
+  held = new Set<string>()
+
+  request(name: string, _options: unknown, callback: () => Promise<void>) {
+    return Promise.resolve().then(() => {
+      this.held.add(name)
+      return callback().then(() => {
+        this.held.delete(name)
+      })
+    })
+  }
+}
+
+// Deliver stream chunks for a request
+function sendChunks(port: MockPort, id: number, chunks: unknown[]) {
+  for (const chunk of chunks) {
+    port.simulateMessage({
+      type: '@shared-worker-utils/stream-chunk',
+      id,
+      chunk,
+    })
+  }
+}
+
 describe('SharedWorkerClient', () => {
   let mockWorker: MockSharedWorker
   let portWrapper: SharedWorkerClient<TestMessage>
@@ -94,6 +141,7 @@ describe('SharedWorkerClient', () => {
     ;(globalThis as unknown as { window: typeof mockWindow }).window =
       mockWindow
     mockDocument.hidden = false
+    mockDocument.focused = true
     mockDocument.listeners.clear()
     mockWindow.listeners.clear()
   })
@@ -139,10 +187,16 @@ describe('SharedWorkerClient', () => {
       { onMessage, onLog }
     )
 
-    mockWorker.port.simulateMessage({ type: '@shared-worker-utils/ping' })
+    mockWorker.port.simulateMessage({
+      type: '@shared-worker-utils/ping',
+      timestamp: 1000,
+    })
 
     const lastMessage = mockWorker.port.getLastMessage()
-    expect(lastMessage).toEqual({ type: '@shared-worker-utils/pong' })
+    expect(lastMessage).toEqual({
+      type: '@shared-worker-utils/pong',
+      timestamp: 1000,
+    })
     expect(onLog).toHaveBeenCalledWith({
       message:
         '[SharedWorkerClient] Received ping from SharedWorker, sending pong',
@@ -150,6 +204,42 @@ describe('SharedWorkerClient', () => {
     })
   })
 
+  it('should estimate latency and clock offset from the round trip of a ping', () => {
+    vi.useFakeTimers({ now: 10_000 })
+    const onLatency = vi.fn()
+    portWrapper = new SharedWorkerClient(
+      mockWorker as unknown as SharedWorker,
+      { onMessage: vi.fn(), onLatency }
+    )
+
+    // The worker clock is 500ms ahead and the ping took 20ms to arrive
+    mockWorker.port.simulateMessage({
+      type: '@shared-worker-utils/ping',
+      timestamp: 10_480,
+    })
+    expect(portWrapper.getLatency()).toBeUndefined()
+
+    // The pong took another 20ms, and the answer as long again
+    vi.advanceTimersByTime(40)
+    mockWorker.port.simulateMessage({
+      type: '@shared-worker-utils/latency',
+      timestamp: 10_480,
+      latency: 40,
+    })
+    // The round trip of an earlier ping is ignored
+    mockWorker.port.simulateMessage({
+      type: '@shared-worker-utils/latency',
+      timestamp: 9480,
+      latency: 900,
+    })
+
+    const info = { latency: 40, clockOffset: 500 }
+    expect(portWrapper.getLatency()).toEqual(info)
+    expect(onLatency).toHaveBeenCalledTimes(1)
+    expect(onLatency).toHaveBeenCalledWith(info)
+    vi.useRealTimers()
+  })
+
   it('should pass non-internal messages to onMessage callback', () => {
     const onMessage = vi.fn()
 
@@ -223,6 +313,7 @@ describe('SharedWorkerClient', () => {
     const lastMessage = mockWorker.port.getLastMessage()
     expect(lastMessage).toEqual({
       type: '@shared-worker-utils/visibility-change',
+      state: 'hidden',
       visible: false,
     })
     expect(portWrapper.isVisible()).toBe(false)
@@ -254,6 +345,7 @@ describe('SharedWorkerClient', () => {
     const lastMessage = mockWorker.port.getLastMessage()
     expect(lastMessage).toEqual({
       type: '@shared-worker-utils/visibility-change',
+      state: 'visible',
       visible: true,
     })
     expect(portWrapper.isVisible()).toBe(true)
@@ -280,7 +372,7 @@ describe('SharedWorkerClient', () => {
     expect(mockWorker.port.getAllMessages().length).toBe(initialMessageCount)
   })
 
-  it('should send disconnect message on beforeunload', () => {
+  it('should send disconnect message when the page unloads', () => {
     const onMessage = vi.fn()
 
     portWrapper = new SharedWorkerClient(
@@ -288,7 +380,7 @@ describe('SharedWorkerClient', () => {
       { onMessage }
     )
 
-    mockWindow.simulateBeforeUnload()
+    mockWindow.simulatePageTransition('pagehide', false)
 
     const lastMessage = mockWorker.port.getLastMessage()
     expect(lastMessage).toEqual({ type: '@shared-worker-utils/disconnect' })
@@ -308,6 +400,1265 @@ describe('SharedWorkerClient', () => {
     expect(lastMessage).toEqual({ type: '@shared-worker-utils/disconnect' })
   })
 
+  describe('request()', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should send a request message and resolve with the result', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      const promise = portWrapper.request('getQuote', { symbol: 'ACME' })
+
+      const request = mockWorker.port.getLastMessage() as { id: number }
+      expect(request).toEqual({
+        type: '@shared-worker-utils/request',
+        id: expect.any(Number),
+        method: 'getQuote',
+        params: { symbol: 'ACME' },
+      })
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/response',
+        id: request.id,
+        result: { price: 42 },
+      })
+
+      await expect(promise).resolves.toEqual({ price: 42 })
+    })
+
+    it('should reject with a RemoteError when the handler fails', async () => {
+      const onMessage = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage }
+      )
+
+      const promise = portWrapper.request('getQuote')
+      const request = mockWorker.port.getLastMessage() as { id: number }
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/response',
+        id: request.id,
+        error: { name: 'TypeError', message: 'Unknown symbol' },
+      })
+
+      await expect(promise).rejects.toBeInstanceOf(RemoteError)
+      await expect(promise).rejects.toMatchObject({
+        name: 'TypeError',
+        message: 'Unknown symbol',
+      })
+      expect(onMessage).not.toHaveBeenCalled()
+    })
+
+    it('should reject and cancel when the timeout elapses', async () => {
+      vi.useFakeTimers()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), requestTimeout: 1000 }
+      )
+
+      const promise = portWrapper.request('slow')
+      const request = mockWorker.port.getLastMessage() as { id: number }
+
+      vi.advanceTimersByTime(1000)
+
+      await expect(promise).rejects.toMatchObject({ name: 'TimeoutError' })
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/cancel',
+        id: request.id,
+      })
+    })
+
+    it('should reject and cancel when the signal is aborted', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      const controller = new AbortController()
+      const promise = portWrapper.request('slow', undefined, {
+        signal: controller.signal,
+      })
+      const request = mockWorker.port.getLastMessage() as { id: number }
+
+      controller.abort()
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/cancel',
+        id: request.id,
+      })
+    })
+
+    it('should reject pending requests on destroy', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      const promise = portWrapper.request('slow')
+      portWrapper.destroy()
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    })
+  })
+
+  it('should send subscribe and unsubscribe messages once per topic', () => {
+    portWrapper = new SharedWorkerClient(
+      mockWorker as unknown as SharedWorker,
+      { onMessage: vi.fn() }
+    )
+
+    mockWorker.port.getAllMessages().length = 0
+
+    portWrapper.subscribe('ACME')
+    portWrapper.subscribe('ACME')
+    expect(portWrapper.getSubscriptions()).toEqual(['ACME'])
+
+    portWrapper.unsubscribe('ACME')
+    portWrapper.unsubscribe('ACME')
+    expect(portWrapper.getSubscriptions()).toEqual([])
+
+    expect(mockWorker.port.getAllMessages()).toEqual([
+      { type: '@shared-worker-utils/subscribe', topic: 'ACME' },
+      { type: '@shared-worker-utils/unsubscribe', topic: 'ACME' },
+    ])
+  })
+
+  describe('stream()', () => {
+    it('should yield chunks until the stream ends', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      const iterator = portWrapper.stream<number>('history', { from: 1 })
+      const first = iterator.next()
+
+      const request = mockWorker.port.getLastMessage() as { id: number }
+      expect(request).toEqual({
+        type: '@shared-worker-utils/request',
+        id: expect.any(Number),
+        method: 'history',
+        params: { from: 1 },
+        stream: true,
+      })
+
+      sendChunks(mockWorker.port, request.id, [1, 2])
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/response',
+        id: request.id,
+      })
+
+      const { value } = await first
+      const chunks = [value]
+      for await (const chunk of { [Symbol.asyncIterator]: () => iterator }) {
+        chunks.push(chunk)
+      }
+      expect(chunks).toEqual([1, 2])
+    })
+
+    it('should throw a RemoteError after the chunks sent before a failure', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      const chunks: unknown[] = []
+      const consume = (async () => {
+        for await (const chunk of portWrapper.stream('history')) {
+          chunks.push(chunk)
+        }
+      })()
+      await Promise.resolve()
+
+      const request = mockWorker.port.getLastMessage() as { id: number }
+      sendChunks(mockWorker.port, request.id, ['a'])
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/response',
+        id: request.id,
+        error: { name: 'Error', message: 'Client marked as stale' },
+      })
+
+      await expect(consume).rejects.toBeInstanceOf(RemoteError)
+      expect(chunks).toEqual(['a'])
+    })
+
+    it('should cancel the handler when the consumer stops early', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      const iterator = portWrapper.stream('history')
+      const first = iterator.next()
+      const request = mockWorker.port.getLastMessage() as { id: number }
+      sendChunks(mockWorker.port, request.id, [1])
+      await first
+
+      await iterator.return()
+
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/cancel',
+        id: request.id,
+      })
+    })
+
+    it('should cancel the handler and throw when the signal is aborted', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+      const controller = new AbortController()
+
+      const iterator = portWrapper.stream('history', undefined, {
+        signal: controller.signal,
+      })
+      const first = iterator.next()
+      const request = mockWorker.port.getLastMessage() as { id: number }
+
+      controller.abort(new Error('Not needed'))
+
+      await expect(first).rejects.toThrow('Not needed')
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/cancel',
+        id: request.id,
+      })
+    })
+
+    it('should throw when the client is destroyed', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      const first = portWrapper.stream('history').next()
+      await Promise.resolve()
+      portWrapper.destroy()
+
+      await expect(first).rejects.toMatchObject({ name: 'AbortError' })
+    })
+  })
+
+  describe('transfer and codecs', () => {
+    it('should pass the transfer list to postMessage', () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+      const postMessage = vi.spyOn(mockWorker.port, 'postMessage')
+      const buffer = new ArrayBuffer(8)
+
+      portWrapper.send({ type: 'upload', buffer }, { transfer: [buffer] })
+
+      expect(postMessage).toHaveBeenCalledWith({ type: 'upload', buffer }, [
+        buffer,
+      ])
+    })
+
+    it('should encode outgoing and decode incoming messages with the codec', () => {
+      const onMessage = vi.fn()
+      const codec = {
+        encode: (message: unknown) => ({ encoded: JSON.stringify(message) }),
+        decode: (data: unknown) =>
+          JSON.parse((data as { encoded: string }).encoded),
+      }
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage, codec }
+      )
+
+      // The handshake is encoded too
+      expect(mockWorker.port.getAllMessages()[0]).toEqual({
+        encoded: expect.stringContaining('@shared-worker-utils/connect'),
+      })
+
+      portWrapper.send({ type: 'hello' })
+      mockWorker.port.simulateMessage(codec.encode({ type: 'tick' }))
+
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        encoded: '{"type":"hello"}',
+      })
+      expect(onMessage).toHaveBeenCalledWith({ type: 'tick' })
+    })
+  })
+
+  describe('ready queue', () => {
+    const ready = { type: '@shared-worker-utils/ready' }
+
+    it('should resolve ready() once the SharedWorker is ready', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+      expect(portWrapper.isReady()).toBe(false)
+
+      mockWorker.port.simulateMessage(ready)
+
+      await expect(portWrapper.ready()).resolves.toBeUndefined()
+      expect(portWrapper.isReady()).toBe(true)
+    })
+
+    it('should queue messages and requests until the SharedWorker is ready', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), queueUntilReady: true }
+      )
+
+      portWrapper.send({ type: 'first' })
+      const promise = portWrapper.request('load')
+      portWrapper.send({ type: 'second' })
+
+      // Only the handshake and the tab's focus went out
+      expect(mockWorker.port.getAllMessages()).toHaveLength(2)
+
+      mockWorker.port.simulateMessage(ready)
+      const [first, request, second] = mockWorker.port
+        .getAllMessages()
+        .slice(2) as Array<{
+        type: string
+        id?: number
+      }>
+      expect([first.type, request.type, second.type]).toEqual([
+        'first',
+        '@shared-worker-utils/request',
+        'second',
+      ])
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/response',
+        id: request.id,
+        result: 'loaded',
+      })
+      await expect(promise).resolves.toBe('loaded')
+
+      portWrapper.send({ type: 'third' })
+      expect(mockWorker.port.getLastMessage()).toEqual({ type: 'third' })
+    })
+
+    it('should drop the oldest message and reject dropped requests when full', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), queueUntilReady: { limit: 1 } }
+      )
+
+      const promise = portWrapper.request('load')
+      portWrapper.send({ type: 'latest' })
+
+      await expect(promise).rejects.toThrow('Outbound queue is full')
+      mockWorker.port.simulateMessage(ready)
+      expect(mockWorker.port.getAllMessages().slice(2)).toEqual([
+        { type: 'latest' },
+      ])
+    })
+
+    it('should throw from send() when full with overflow throw', () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        {
+          onMessage: vi.fn(),
+          queueUntilReady: { limit: 1, overflow: 'throw' },
+        }
+      )
+
+      portWrapper.send({ type: 'first' })
+
+      expect(() => portWrapper.send({ type: 'second' })).toThrow(
+        'Outbound queue is full (1 messages)'
+      )
+    })
+
+    it('should not send a queued request that was aborted', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), queueUntilReady: true }
+      )
+      const controller = new AbortController()
+
+      const promise = portWrapper.request('load', undefined, {
+        signal: controller.signal,
+      })
+      controller.abort()
+      await expect(promise).rejects.toBeDefined()
+
+      mockWorker.port.simulateMessage(ready)
+      // Neither the request nor its cancellation was sent
+      expect(mockWorker.port.getAllMessages()).toHaveLength(2)
+    })
+  })
+
+  describe('middleware', () => {
+    it('should rewrite outbound messages and stop inbound ones', () => {
+      const onMessage = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        {
+          onMessage,
+          middleware: [
+            (context, next) => {
+              if (context.internal) return next()
+              if (context.direction === 'outbound') {
+                context.message = { ...(context.message as object), traced: 1 }
+                return next()
+              }
+              // Drop inbound messages marked as debug output
+              if ((context.message as TestMessage).type !== 'debug') next()
+            },
+          ],
+        }
+      )
+
+      portWrapper.send({ type: 'hello' })
+      mockWorker.port.simulateMessage({ type: 'debug' })
+      mockWorker.port.simulateMessage({ type: 'tick' })
+
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: 'hello',
+        traced: 1,
+      })
+      expect(onMessage).toHaveBeenCalledTimes(1)
+      expect(onMessage).toHaveBeenCalledWith({ type: 'tick' })
+    })
+
+    it('should reject a request when outbound middleware throws', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+      portWrapper.use((context, next) => {
+        if (context.direction === 'outbound' && context.internal) {
+          throw new Error('Offline')
+        }
+        next()
+      })
+      const sent = mockWorker.port.getAllMessages().length
+
+      await expect(portWrapper.request('getQuote')).rejects.toThrow('Offline')
+      expect(mockWorker.port.getAllMessages()).toHaveLength(sent)
+    })
+  })
+
+  it('should disconnect after a SharedWorker shutdown without reconnection', async () => {
+    vi.useFakeTimers()
+    portWrapper = new SharedWorkerClient(
+      mockWorker as unknown as SharedWorker,
+      { onMessage: vi.fn() }
+    )
+
+    mockWorker.port.simulateMessage({
+      type: '@shared-worker-utils/shutdown',
+      drainTimeout: 1000,
+    })
+    expect(portWrapper.getConnectionState()).toBe('connected')
+
+    vi.advanceTimersByTime(1000)
+    expect(portWrapper.getConnectionState()).toBe('disconnected')
+    expect(mockWorker.port.getLastMessage()).toEqual({
+      type: '@shared-worker-utils/disconnect',
+    })
+
+    // Later requests are not posted to the closed port
+    await expect(portWrapper.request('save')).rejects.toThrow(
+      'Not connected to SharedWorker'
+    )
+    expect(mockWorker.port.getLastMessage()).toEqual({
+      type: '@shared-worker-utils/disconnect',
+    })
+    vi.useRealTimers()
+  })
+
+  it('should call onRateLimited when the SharedWorker limits this client', () => {
+    const onRateLimited = vi.fn()
+    const onMessage = vi.fn()
+    portWrapper = new SharedWorkerClient(
+      mockWorker as unknown as SharedWorker,
+      { onMessage, onRateLimited }
+    )
+
+    mockWorker.port.simulateMessage({
+      type: '@shared-worker-utils/rate-limited',
+      messageType: 'chat',
+      action: 'dropped',
+      retryAfter: 500,
+    })
+
+    expect(onRateLimited).toHaveBeenCalledWith({
+      messageType: 'chat',
+      action: 'dropped',
+      retryAfter: 500,
+    })
+    expect(onMessage).not.toHaveBeenCalled()
+  })
+
+  describe('reconnection', () => {
+    let workers: MockSharedWorker[]
+    let createWorker: () => SharedWorker
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      workers = []
+      createWorker = vi.fn(() => {
+        const worker = new MockSharedWorker()
+        workers.push(worker)
+        return worker as unknown as SharedWorker
+      })
+    })
+
+    afterEach(() => {
+      portWrapper.destroy()
+      vi.useRealTimers()
+    })
+
+    it('should reconnect when the worker stops sending messages', () => {
+      const onConnectionStateChange = vi.fn()
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+        onConnectionStateChange,
+        reconnect: { heartbeatTimeout: 5000, initialDelay: 100 },
+      })
+
+      vi.advanceTimersByTime(4999)
+      workers[0].port.simulateMessage({ type: '@shared-worker-utils/ping' })
+      vi.advanceTimersByTime(4999)
+      expect(createWorker).toHaveBeenCalledTimes(1)
+
+      vi.advanceTimersByTime(1)
+      expect(onConnectionStateChange).toHaveBeenCalledWith('reconnecting')
+      expect(portWrapper.getConnectionState()).toBe('reconnecting')
+      expect(workers[0].port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/disconnect',
+      })
+
+      vi.advanceTimersByTime(100)
+      expect(createWorker).toHaveBeenCalledTimes(2)
+
+      workers[1].port.simulateMessage({
+        type: '@shared-worker-utils/client-count',
+        total: 1,
+        active: 1,
+      })
+      expect(onConnectionStateChange).toHaveBeenLastCalledWith('connected')
+      expect(portWrapper.getConnectionState()).toBe('connected')
+    })
+
+    it('should reconnect after a SharedWorker shutdown has drained', async () => {
+      const onShutdown = vi.fn()
+      const onConnectionStateChange = vi.fn()
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+        onShutdown,
+        onConnectionStateChange,
+        reconnect: { initialDelay: 100 },
+      })
+      const promise = portWrapper.request('save')
+      const request = workers[0].port.getLastMessage() as { id: number }
+
+      workers[0].port.simulateMessage({
+        type: '@shared-worker-utils/shutdown',
+        reason: 'Deploy',
+        drainTimeout: 1000,
+      })
+      expect(onShutdown).toHaveBeenCalledWith({
+        reason: 'Deploy',
+        drainTimeout: 1000,
+      })
+      expect(portWrapper.getConnectionState()).toBe('reconnecting')
+
+      // In-flight requests still complete
+      workers[0].port.simulateMessage({
+        type: '@shared-worker-utils/response',
+        id: request.id,
+        result: 'saved',
+      })
+      await expect(promise).resolves.toBe('saved')
+      expect(portWrapper.getConnectionState()).toBe('reconnecting')
+
+      // New requests wait for the next SharedWorker
+      const later = portWrapper.request('load')
+      expect(workers[0].port.getLastMessage()).toBe(request)
+
+      vi.advanceTimersByTime(1000)
+      expect(createWorker).toHaveBeenCalledTimes(1)
+      vi.advanceTimersByTime(100)
+      expect(createWorker).toHaveBeenCalledTimes(2)
+
+      const replayed = workers[1].port.getLastMessage() as { id: number }
+      expect(replayed).toMatchObject({
+        type: '@shared-worker-utils/request',
+        method: 'load',
+      })
+      workers[1].port.simulateMessage({
+        type: '@shared-worker-utils/response',
+        id: replayed.id,
+        result: 'loaded',
+      })
+      await expect(later).resolves.toBe('loaded')
+
+      workers[1].port.simulateMessage({ type: '@shared-worker-utils/ping' })
+      expect(onConnectionStateChange).toHaveBeenLastCalledWith('connected')
+    })
+
+    it('should reconnect when the worker emits an error', () => {
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+        reconnect: { initialDelay: 100 },
+      })
+
+      workers[0].simulateError()
+      expect(portWrapper.getConnectionState()).toBe('reconnecting')
+
+      vi.advanceTimersByTime(100)
+      expect(createWorker).toHaveBeenCalledTimes(2)
+    })
+
+    it('should replay visibility and subscriptions after reconnecting', () => {
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+        reconnect: { initialDelay: 100 },
+      })
+
+      portWrapper.subscribe('ACME')
+      mockDocument.simulateVisibilityChange(true)
+
+      workers[0].simulateError()
+      vi.advanceTimersByTime(100)
+
+      expect(workers[1].port.getAllMessages()).toEqual([
+        expect.objectContaining({
+          type: '@shared-worker-utils/connect',
+          clientId: portWrapper.getClientId(),
+        }),
+        {
+          type: '@shared-worker-utils/user-activity',
+          focused: true,
+          idle: false,
+        },
+        {
+          type: '@shared-worker-utils/visibility-change',
+          state: 'hidden',
+          visible: false,
+        },
+        { type: '@shared-worker-utils/subscribe', topic: 'ACME' },
+      ])
+    })
+
+    it('should back off between attempts and give up after maxAttempts', () => {
+      const onConnectionStateChange = vi.fn()
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+        onConnectionStateChange,
+        reconnect: {
+          heartbeatTimeout: 1000,
+          initialDelay: 100,
+          backoffMultiplier: 2,
+          maxAttempts: 2,
+        },
+      })
+
+      // First attempt after 1000ms heartbeat + 100ms delay
+      vi.advanceTimersByTime(1100)
+      expect(createWorker).toHaveBeenCalledTimes(2)
+
+      // Second attempt after another 1000ms heartbeat + 200ms delay
+      vi.advanceTimersByTime(1199)
+      expect(createWorker).toHaveBeenCalledTimes(2)
+      vi.advanceTimersByTime(1)
+      expect(createWorker).toHaveBeenCalledTimes(3)
+
+      vi.advanceTimersByTime(1000)
+      expect(onConnectionStateChange).toHaveBeenLastCalledWith('disconnected')
+      vi.advanceTimersByTime(10_000)
+      expect(createWorker).toHaveBeenCalledTimes(3)
+    })
+
+    it('should reject pending requests when the connection is lost', async () => {
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+      })
+
+      const promise = portWrapper.request('slow')
+      workers[0].simulateError()
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+    })
+
+    it('should hold messages sent while reconnecting for the new port', () => {
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+        reconnect: { initialDelay: 100 },
+      })
+      workers[0].simulateError()
+
+      portWrapper.send({ type: 'chat', text: 'hello' })
+      expect(workers[0].port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/disconnect',
+      })
+
+      vi.advanceTimersByTime(100)
+      expect(workers[1].port.getLastMessage()).toEqual({
+        type: 'chat',
+        text: 'hello',
+      })
+    })
+
+    it('should drop messages and warn once reconnecting gave up', async () => {
+      const onLog = vi.fn()
+      portWrapper = new SharedWorkerClient(createWorker, {
+        onMessage: vi.fn(),
+        onLog,
+        reconnect: { heartbeatTimeout: 1000, maxAttempts: 0 },
+      })
+      vi.advanceTimersByTime(1000)
+      expect(portWrapper.getConnectionState()).toBe('disconnected')
+
+      portWrapper.send({ type: 'chat', text: 'hello' })
+      const promise = portWrapper.request('slow')
+
+      expect(workers[0].port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/disconnect',
+      })
+      expect(onLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message:
+            '[SharedWorkerClient] Not connected to SharedWorker, message dropped',
+          level: 'warn',
+        })
+      )
+      await expect(promise).rejects.toThrow('Not connected to SharedWorker')
+    })
+
+    it('should not reconnect when given a SharedWorker instance', () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      mockWorker.simulateError()
+      vi.advanceTimersByTime(60_000)
+
+      expect(portWrapper.getConnectionState()).toBe('connected')
+    })
+  })
+
+  it('should send a connect handshake with client ID and metadata', () => {
+    portWrapper = new SharedWorkerClient(
+      mockWorker as unknown as SharedWorker,
+      { onMessage: vi.fn(), clientId: 'tab-1', metadata: { userId: 42 } }
+    )
+
+    expect(portWrapper.getClientId()).toBe('tab-1')
+    expect(mockWorker.port.getAllMessages()[0]).toEqual({
+      type: '@shared-worker-utils/connect',
+      clientId: 'tab-1',
+      metadata: {
+        url: location.href,
+        userAgent: navigator.userAgent,
+        connectedAt: expect.any(Number),
+        custom: { userId: 42 },
+      },
+      libraryVersion: 1,
+    })
+  })
+
+  it('should generate a client ID when none is given', () => {
+    portWrapper = new SharedWorkerClient(
+      mockWorker as unknown as SharedWorker,
+      { onMessage: vi.fn() }
+    )
+
+    expect(portWrapper.getClientId()).toEqual(expect.any(String))
+    expect(portWrapper.getClientId()).not.toBe('')
+  })
+
+  describe('page lifecycle', () => {
+    it('should tell the SharedWorker when the page is frozen and resumed', () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+      mockWorker.port.getAllMessages().length = 0
+
+      mockDocument.simulateEvent('freeze')
+      mockDocument.simulateEvent('freeze')
+      expect(portWrapper.getLifecycleState()).toBe('frozen')
+
+      mockDocument.hidden = true
+      mockDocument.simulateEvent('resume')
+      expect(portWrapper.getLifecycleState()).toBe('hidden')
+      expect(mockWorker.port.getAllMessages()).toEqual([
+        {
+          type: '@shared-worker-utils/visibility-change',
+          state: 'frozen',
+          visible: false,
+        },
+        {
+          type: '@shared-worker-utils/visibility-change',
+          state: 'hidden',
+          visible: false,
+        },
+      ])
+    })
+
+    it('should stay connected when the page enters the back/forward cache', () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      mockWindow.simulatePageTransition('pagehide', true)
+
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/visibility-change',
+        state: 'frozen',
+        visible: false,
+      })
+      expect(portWrapper.getConnectionState()).toBe('connected')
+    })
+
+    it('should reconnect right away when restored from the back/forward cache', () => {
+      vi.useFakeTimers()
+      const workers: MockSharedWorker[] = []
+      portWrapper = new SharedWorkerClient(
+        () => {
+          const worker = new MockSharedWorker()
+          workers.push(worker)
+          return worker as unknown as SharedWorker
+        },
+        { onMessage: vi.fn(), reconnect: { heartbeatTimeout: 1000 } }
+      )
+      portWrapper.subscribe('ACME')
+
+      mockWindow.simulatePageTransition('pagehide', true)
+      // Frozen pages cannot hear from the SharedWorker, so it is not timed out
+      vi.advanceTimersByTime(60_000)
+      expect(workers).toHaveLength(1)
+
+      mockWindow.simulatePageTransition('pageshow', true)
+
+      expect(workers).toHaveLength(2)
+      expect(workers[0].port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/disconnect',
+      })
+      expect(workers[1].port.getAllMessages()).toEqual([
+        expect.objectContaining({ type: '@shared-worker-utils/connect' }),
+        {
+          type: '@shared-worker-utils/user-activity',
+          focused: true,
+          idle: false,
+        },
+        {
+          type: '@shared-worker-utils/visibility-change',
+          state: 'visible',
+          visible: true,
+        },
+        { type: '@shared-worker-utils/subscribe', topic: 'ACME' },
+      ])
+      portWrapper.destroy()
+      vi.useRealTimers()
+    })
+
+    it('should keep the port after a restore the SharedWorker answers', () => {
+      vi.useFakeTimers()
+      const onConnectionStateChange = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), onConnectionStateChange }
+      )
+      onConnectionStateChange.mockClear()
+
+      mockWindow.simulatePageTransition('pagehide', true)
+      mockWindow.simulatePageTransition('pageshow', true)
+
+      expect(mockWorker.port.getAllMessages().slice(-2)).toEqual([
+        {
+          type: '@shared-worker-utils/visibility-change',
+          state: 'visible',
+          visible: true,
+        },
+        {
+          type: '@shared-worker-utils/user-activity',
+          focused: true,
+          idle: false,
+        },
+      ])
+      mockWorker.port.simulateMessage({ type: '@shared-worker-utils/ping' })
+      vi.advanceTimersByTime(60_000)
+
+      expect(portWrapper.getConnectionState()).toBe('connected')
+      expect(onConnectionStateChange).not.toHaveBeenCalled()
+      vi.useRealTimers()
+    })
+
+    it('should report a restore the SharedWorker does not answer as disconnected', async () => {
+      vi.useFakeTimers()
+      const onConnectionStateChange = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), onConnectionStateChange }
+      )
+      const pending = portWrapper.request('slow')
+
+      mockWindow.simulatePageTransition('pagehide', true)
+      mockWindow.simulatePageTransition('pageshow', true)
+      expect(portWrapper.getConnectionState()).toBe('connected')
+
+      vi.advanceTimersByTime(30_000)
+
+      expect(portWrapper.getConnectionState()).toBe('disconnected')
+      expect(onConnectionStateChange).toHaveBeenCalledWith('disconnected')
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/disconnect',
+      })
+      await expect(pending).rejects.toThrow('Connection to SharedWorker lost')
+      vi.useRealTimers()
+    })
+  })
+
+  describe('focus and user idle', () => {
+    it('should tell the SharedWorker when the tab gains or loses focus', () => {
+      const onLog = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), onLog }
+      )
+      expect(portWrapper.isFocused()).toBe(true)
+
+      mockDocument.focused = false
+      mockWindow.simulateEvent('blur')
+      mockWindow.simulateEvent('blur')
+
+      expect(portWrapper.isFocused()).toBe(false)
+      expect(
+        mockWorker.port
+          .getAllMessages()
+          .filter(
+            (message) =>
+              (message as { type: string }).type ===
+              '@shared-worker-utils/user-activity'
+          )
+      ).toEqual([
+        {
+          type: '@shared-worker-utils/user-activity',
+          focused: true,
+          idle: false,
+        },
+        {
+          type: '@shared-worker-utils/user-activity',
+          focused: false,
+          idle: false,
+        },
+      ])
+      expect(onLog).toHaveBeenCalledWith({
+        message: '[SharedWorkerClient] Tab focus changed',
+        level: 'info',
+        context: { focused: false },
+      })
+    })
+
+    it('should report the user idle after the timeout without input', () => {
+      vi.useFakeTimers()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), userIdle: { timeout: 1000 } }
+      )
+
+      vi.advanceTimersByTime(500)
+      mockDocument.simulateEvent('pointermove')
+      vi.advanceTimersByTime(999)
+      expect(portWrapper.isUserIdle()).toBe(false)
+
+      vi.advanceTimersByTime(1)
+      expect(portWrapper.isUserIdle()).toBe(true)
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/user-activity',
+        focused: true,
+        idle: true,
+      })
+
+      mockDocument.simulateEvent('keydown')
+      expect(portWrapper.isUserIdle()).toBe(false)
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/user-activity',
+        focused: true,
+        idle: false,
+      })
+      portWrapper.destroy()
+      vi.useRealTimers()
+    })
+
+    it('should not track user input without the userIdle option', () => {
+      vi.useFakeTimers()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      vi.advanceTimersByTime(600_000)
+
+      expect(portWrapper.isUserIdle()).toBe(false)
+      expect(mockDocument.listeners.has('pointermove')).toBe(false)
+      portWrapper.destroy()
+      vi.useRealTimers()
+    })
+  })
+
+  describe('liveness lock', () => {
+    let locks: MockLockManager
+
+    beforeEach(() => {
+      locks = new MockLockManager()
+      Object.defineProperty(navigator, 'locks', {
+        value: locks,
+        configurable: true,
+      })
+    })
+
+    afterEach(() => {
+      delete (navigator as { locks?: unknown }).locks
+    })
+
+    it('should hold a lock and tell the SharedWorker its name', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), livenessLock: true }
+      )
+      await Promise.resolve()
+
+      const [name] = locks.held
+      expect(name).toMatch(/^@shared-worker-utils\/liveness\//)
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/liveness-lock',
+        name,
+      })
+    })
+
+    it('should release the lock when destroyed', async () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), livenessLock: true }
+      )
+      await Promise.resolve()
+
+      portWrapper.destroy()
+      await Promise.resolve()
+
+      expect(locks.held.size).toBe(0)
+    })
+
+    it('should tell a new SharedWorker connection about the lock', async () => {
+      vi.useFakeTimers()
+      const workers: MockSharedWorker[] = []
+      portWrapper = new SharedWorkerClient(
+        () => {
+          const worker = new MockSharedWorker()
+          workers.push(worker)
+          return worker as unknown as SharedWorker
+        },
+        {
+          onMessage: vi.fn(),
+          livenessLock: true,
+          reconnect: { initialDelay: 100 },
+        }
+      )
+      await Promise.resolve()
+
+      workers[0].simulateError()
+      vi.advanceTimersByTime(100)
+
+      const [name] = locks.held
+      expect(workers[1].port.getAllMessages()).toContainEqual({
+        type: '@shared-worker-utils/liveness-lock',
+        name,
+      })
+      portWrapper.destroy()
+      vi.useRealTimers()
+    })
+
+    it('should rely on heartbeats without Web Locks', async () => {
+      delete (navigator as { locks?: unknown }).locks
+      const onLog = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), livenessLock: true, onLog }
+      )
+      await Promise.resolve()
+
+      expect(mockWorker.port.getAllMessages()).not.toContainEqual(
+        expect.objectContaining({ type: '@shared-worker-utils/liveness-lock' })
+      )
+      expect(onLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message:
+            '[SharedWorkerClient] Web Locks not supported, relying on heartbeats',
+        })
+      )
+    })
+  })
+
+  describe('contract validation', () => {
+    const contract = defineContract({
+      client: {},
+      worker: {
+        test: (value: unknown): value is TestMessage =>
+          typeof (value as TestMessage).data === 'string',
+      },
+    })
+
+    it('should pass valid messages to onMessage', () => {
+      const onMessage = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage, contract }
+      )
+
+      const message = { type: 'test', data: 'hello' }
+      mockWorker.port.simulateMessage(message)
+
+      expect(onMessage).toHaveBeenCalledWith(message)
+    })
+
+    it('should reject invalid messages and report them when enabled', () => {
+      const onMessage = vi.fn()
+      const onLog = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage, onLog, contract, reportInvalidMessages: true }
+      )
+
+      mockWorker.port.simulateMessage({ type: 'test', data: 42 })
+
+      expect(onMessage).not.toHaveBeenCalled()
+      expect(onLog).toHaveBeenCalledWith({
+        message:
+          '[SharedWorkerClient] Rejected invalid message from SharedWorker',
+        level: 'warn',
+        context: { messageType: 'test', error: 'Invalid "test" message' },
+      })
+      expect(mockWorker.port.getLastMessage()).toEqual({
+        type: '@shared-worker-utils/message-rejected',
+        messageType: 'test',
+        error: 'Invalid "test" message',
+      })
+    })
+
+    it('should call onMessageRejected when the worker reports a rejection', () => {
+      const onMessageRejected = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), onMessageRejected }
+      )
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/message-rejected',
+        messageType: 'custom',
+        error: 'Unknown message type "custom"',
+      })
+
+      expect(onMessageRejected).toHaveBeenCalledWith({
+        messageType: 'custom',
+        error: 'Unknown message type "custom"',
+      })
+    })
+  })
+
+  describe('version negotiation', () => {
+    const mismatch = {
+      clientLibraryVersion: 1,
+      workerLibraryVersion: 1,
+      clientProtocolVersion: 1,
+      workerProtocolVersion: 2,
+    }
+
+    it('should send its protocol version with the handshake', () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), protocolVersion: '2024-06' }
+      )
+
+      expect(mockWorker.port.getAllMessages()[0]).toEqual(
+        expect.objectContaining({
+          libraryVersion: 1,
+          protocolVersion: '2024-06',
+        })
+      )
+    })
+
+    it('should call onVersionMismatch when the worker reports a mismatch', () => {
+      const onVersionMismatch = vi.fn()
+      const onMessage = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage, onVersionMismatch, protocolVersion: 1 }
+      )
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/connect-ack',
+        libraryVersion: 1,
+        protocolVersion: 2,
+        mismatch: { ...mismatch, action: 'warn' },
+      })
+
+      expect(onVersionMismatch).toHaveBeenCalledWith({
+        ...mismatch,
+        action: 'warn',
+      })
+      expect(onMessage).not.toHaveBeenCalled()
+    })
+
+    it('should not call onVersionMismatch for compatible versions', () => {
+      const onVersionMismatch = vi.fn()
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), onVersionMismatch }
+      )
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/connect-ack',
+        libraryVersion: 1,
+      })
+
+      expect(onVersionMismatch).not.toHaveBeenCalled()
+    })
+
+    it('should destroy itself when the worker rejects it', () => {
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn(), onVersionMismatch: vi.fn() }
+      )
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/connect-ack',
+        libraryVersion: 1,
+        mismatch: { ...mismatch, action: 'reject' },
+      })
+
+      expect(portWrapper.getConnectionState()).toBe('disconnected')
+    })
+
+    it('should reload the page when asked to and no callback is given', () => {
+      const reload = vi.fn()
+      vi.stubGlobal('location', { ...location, reload })
+
+      portWrapper = new SharedWorkerClient(
+        mockWorker as unknown as SharedWorker,
+        { onMessage: vi.fn() }
+      )
+
+      mockWorker.port.simulateMessage({
+        type: '@shared-worker-utils/connect-ack',
+        libraryVersion: 1,
+        mismatch: { ...mismatch, action: 'reload' },
+      })
+
+      expect(reload).toHaveBeenCalled()
+      vi.unstubAllGlobals()
+    })
+  })
+
   it('should work without onLog callback', () => {
     const onMessage = vi.fn()
 
@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { UpstreamSocketOptions, UpstreamState } from '../src/types'
+import { UpstreamSocket } from '../src/upstream-socket'
+
+// Mock WebSocket
+class MockWebSocket extends EventTarget {
+  send = vi.fn()
+  close = vi.fn()
+
+  constructor(readonly url: string) {
+    super()
+  }
+
+  // Test helpers to simulate the server
+  open() {
+    this.dispatchEvent(new Event('open'))
+  }
+
+  receive(data: unknown) {
+    this.dispatchEvent(new MessageEvent('message', { data }))
+  }
+
+  drop() {
+    this.dispatchEvent(new Event('close'))
+  }
+}
+
+function unregister() {
+  // No-op for mock
+}
+
+// Just enough of a PortManager, with a settable active count
+class MockPortManager {
+  active: number
+  broadcast = vi.fn()
+  publish = vi.fn()
+  handle = vi.fn().mockReturnValue(unregister)
+  private listeners = new Set<(active: number, total: number) => void>()
+
+  constructor(active: number) {
+    this.active = active
+  }
+
+  getActiveCount() {
+    return this.active
+  }
+
+  watchClientCount(listener: (active: number, total: number) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  setActive(active: number) {
+    this.active = active
+    for (const listener of this.listeners) listener(active, active)
+  }
+}
+
+describe('UpstreamSocket', () => {
+  let portManager: MockPortManager
+  let sockets: MockWebSocket[]
+  let states: UpstreamState[]
+  let upstream: UpstreamSocket | undefined
+
+  function createUpstream(options: Partial<UpstreamSocketOptions> = {}) {
+    upstream = new UpstreamSocket(portManager, {
+      url: 'wss://example.com/feed',
+      name: 'feed',
+      createSocket: (url) => {
+        const socket = new MockWebSocket(url)
+        sockets.push(socket)
+        return socket
+      },
+      reconnect: { jitter: 0 },
+      onStatusChange: ({ state }) => states.push(state),
+      ...options,
+    })
+    return upstream
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    portManager = new MockPortManager(0)
+    sockets = []
+    states = []
+  })
+
+  afterEach(() => {
+    upstream?.destroy()
+    upstream = undefined
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should connect once there are active clients', () => {
+    createUpstream()
+    expect(sockets).toHaveLength(0)
+
+    portManager.setActive(1)
+    sockets[0].open()
+
+    expect(sockets[0].url).toBe('wss://example.com/feed')
+    expect(states).toEqual(['connecting', 'connected'])
+    expect(upstream?.getStatus()).toEqual({ state: 'connected', attempts: 0 })
+  })
+
+  it('should connect right away if clients are already active', () => {
+    portManager.active = 2
+    createUpstream()
+
+    expect(sockets).toHaveLength(1)
+  })
+
+  it('should mirror the status in every tab', () => {
+    portManager.active = 1
+    createUpstream({ name: 'prices' })
+
+    expect(portManager.handle).toHaveBeenCalledWith(
+      '@shared-worker-utils/state/prices/sync',
+      expect.any(Function)
+    )
+    expect(portManager.publish).toHaveBeenCalledWith(
+      '@shared-worker-utils/state/prices',
+      expect.objectContaining({
+        patch: [{ op: 'replace', path: '/state', value: 'connecting' }],
+      })
+    )
+  })
+
+  it('should disconnect after the grace period without active clients', () => {
+    portManager.active = 1
+    createUpstream({ gracePeriod: 1000 })
+    sockets[0].open()
+
+    portManager.setActive(0)
+    vi.advanceTimersByTime(500)
+    portManager.setActive(1)
+    portManager.setActive(0)
+    vi.advanceTimersByTime(999)
+    expect(sockets[0].close).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(sockets[0].close).toHaveBeenCalled()
+    expect(upstream?.getStatus().state).toBe('disconnected')
+  })
+
+  it('should reconnect with exponential backoff', () => {
+    portManager.active = 1
+    createUpstream({ reconnect: { jitter: 0, initialDelay: 1000 } })
+
+    sockets[0].drop()
+    expect(upstream?.getStatus()).toEqual({
+      state: 'reconnecting',
+      attempts: 1,
+      retryAt: Date.now() + 1000,
+    })
+
+    vi.advanceTimersByTime(1000)
+    sockets[1].drop()
+    vi.advanceTimersByTime(1999)
+    expect(sockets).toHaveLength(2)
+    vi.advanceTimersByTime(1)
+    expect(sockets).toHaveLength(3)
+
+    sockets[2].open()
+    expect(upstream?.getStatus()).toEqual({ state: 'connected', attempts: 0 })
+  })
+
+  it('should randomize delays with jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    portManager.active = 1
+    createUpstream({ reconnect: { initialDelay: 1000, jitter: 0.5 } })
+
+    sockets[0].drop()
+
+    expect(upstream?.getStatus().retryAt).toBe(Date.now() + 500)
+  })
+
+  it('should give up after maxAttempts', () => {
+    portManager.active = 1
+    createUpstream({ reconnect: { jitter: 0, maxAttempts: 1 } })
+
+    sockets[0].drop()
+    vi.advanceTimersByTime(1000)
+    sockets[1].drop()
+
+    expect(upstream?.getStatus()).toEqual({
+      state: 'disconnected',
+      attempts: 1,
+    })
+    vi.advanceTimersByTime(60_000)
+    expect(sockets).toHaveLength(2)
+  })
+
+  it('should not reconnect when the socket closes without active clients', () => {
+    portManager.active = 1
+    createUpstream()
+    sockets[0].open()
+
+    portManager.setActive(0)
+    sockets[0].drop()
+    vi.advanceTimersByTime(60_000)
+
+    expect(sockets).toHaveLength(1)
+    expect(upstream?.getStatus().state).toBe('disconnected')
+  })
+
+  it('should connect again when a client returns after the socket closed', () => {
+    portManager.active = 1
+    createUpstream({ gracePeriod: 1000 })
+    sockets[0].open()
+
+    portManager.setActive(0)
+    sockets[0].drop()
+    vi.advanceTimersByTime(500)
+    portManager.setActive(1)
+
+    expect(sockets).toHaveLength(2)
+    expect(states.at(-1)).toBe('connecting')
+  })
+
+  it('should replay subscriptions after reconnecting', () => {
+    portManager.active = 1
+    createUpstream()
+    upstream?.subscribe('prices', { subscribe: 'prices' })
+    upstream?.subscribe('news', { subscribe: 'news' })
+    sockets[0].open()
+
+    upstream?.unsubscribe('news', { unsubscribe: 'news' })
+    sockets[0].drop()
+    vi.advanceTimersByTime(1000)
+    sockets[1].open()
+
+    expect(sockets[0].send.mock.calls).toEqual([
+      ['{"subscribe":"prices"}'],
+      ['{"subscribe":"news"}'],
+      ['{"unsubscribe":"news"}'],
+    ])
+    expect(sockets[1].send.mock.calls).toEqual([['{"subscribe":"prices"}']])
+  })
+
+  it('should only send while connected', () => {
+    portManager.active = 1
+    createUpstream({ serialize: String })
+
+    expect(upstream?.send('early')).toBe(false)
+    sockets[0].open()
+    expect(upstream?.send('hello')).toBe(true)
+    expect(sockets[0].send).toHaveBeenCalledWith('hello')
+  })
+
+  it('should broadcast messages from the socket by default', () => {
+    const onLog = vi.fn()
+    portManager.active = 1
+    createUpstream({ onLog })
+    sockets[0].open()
+
+    sockets[0].receive('{"type":"price","value":42}')
+    sockets[0].receive('not json')
+
+    expect(portManager.broadcast).toHaveBeenCalledTimes(1)
+    expect(portManager.broadcast).toHaveBeenCalledWith({
+      type: 'price',
+      value: 42,
+    })
+    expect(onLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: '[UpstreamSocket] Failed to deserialize message',
+        level: 'warn',
+      })
+    )
+  })
+
+  it('should close the socket and stop following clients on destroy', () => {
+    portManager.active = 1
+    createUpstream()
+
+    upstream?.destroy()
+    portManager.setActive(0)
+    portManager.setActive(1)
+
+    expect(sockets).toHaveLength(1)
+    expect(sockets[0].close).toHaveBeenCalled()
+  })
+})